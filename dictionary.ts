@@ -0,0 +1,698 @@
+// Offline dictionary for furigana and tap-to-lookup.
+// A subset of JMdict (© Electronic Dictionary Research and Development Group, CC BY-SA 4.0):
+// N1 vocabulary plus the everyday words that fill passages and explanations.
+
+// --- Types ---
+
+export type PartOfSpeech = "n" | "vs" | "adj-na" | "adj-i" | "v1" | "v5" | "adv" | "conj";
+
+export interface DictionaryEntry {
+  id: number;
+  kanji: string[]; // Written forms, most common first; empty for words written in kana
+  readings: string[];
+  pos: PartOfSpeech[];
+  glosses: string[];
+}
+
+// Ruby for one word: kanji runs carry their reading, okurigana stays bare
+export interface FuriganaPart {
+  text: string;
+  reading?: string;
+}
+
+export interface FuriganaToken {
+  text: string;
+  parts?: FuriganaPart[]; // Only on dictionary words written with kanji
+  entry?: DictionaryEntry;
+}
+
+export interface DictionaryMatch {
+  surface: string; // The stretch of text that matched, without inflected endings
+  entries: DictionaryEntry[];
+}
+
+// --- Data ---
+
+// kanji forms|readings|parts of speech|glosses, one entry per line
+const DICTIONARY_SOURCE = `
+懸念|けねん|n,vs|concern; worry; fear
+顕著|けんちょ|adj-na|remarkable; striking; obvious
+把握|はあく|n,vs|grasp; understanding
+妥協|だきょう|n,vs|compromise
+発足|ほっそく,はっそく|n,vs|starting; inauguration; launch
+漠然|ばくぜん|adj-na|vague; obscure
+逸脱|いつだつ|n,vs|deviation; departure
+斡旋|あっせん|n,vs|mediation; good offices; placement
+措置|そち|n,vs|measure; step
+該当|がいとう|n,vs|corresponding to; being applicable
+踏襲|とうしゅう|n,vs|following (a precedent); continuing
+是正|ぜせい|n,vs|correction; redress
+緩和|かんわ|n,vs|relief; relaxation; easing
+拮抗|きっこう|n,vs|rivalry; competing with
+頻繁|ひんぱん|adj-na|frequent; incessant
+貢献|こうけん|n,vs|contribution; services
+施行|しこう,せこう|n,vs|enforcement; putting in force
+脆弱|ぜいじゃく|adj-na|fragile; weak; vulnerable
+煩雑|はんざつ|adj-na|complicated; troublesome
+抜粋|ばっすい|n,vs|extract; excerpt
+網羅|もうら|n,vs|covering (all); comprehensiveness
+奨励|しょうれい|n,vs|encouragement; promotion
+円滑|えんかつ|adj-na|smooth; harmonious
+弊害|へいがい|n|harmful effect; evil
+兆し|きざし|n|signs; indications; omen
+手際|てぎわ|n|skill; performance; execution
+目途,目処|めど|n|aim; prospect; outlook
+憤り|いきどおり|n|resentment; indignation
+腕前|うでまえ|n|ability; skill
+案の定|あんのじょう|adv|just as one thought; sure enough
+損なう|そこなう|v5|to harm; to hurt; to damage
+賄う|まかなう|v5|to supply; to cover (costs); to finance
+培う|つちかう|v5|to cultivate; to foster
+覆す|くつがえす|v5|to overturn; to upset; to reverse
+携わる|たずさわる|v5|to engage in; to participate in
+滞る|とどこおる|v5|to stagnate; to be delayed; to be overdue
+募る|つのる|v5|to become stronger; to invite; to recruit
+阻む|はばむ|v5|to keep someone from doing; to obstruct
+紛らわしい|まぎらわしい|adj-i|confusing; misleading
+潔い|いさぎよい|adj-i|manly; gracious; pure
+著しい|いちじるしい|adj-i|striking; remarkable; considerable
+目覚ましい|めざましい|adj-i|remarkable; striking
+和やか|なごやか|adj-na|mild; calm; harmonious
+厳か|おごそか|adj-na|solemn; stately
+鮮やか|あざやか|adj-na|vivid; clear; brilliant
+一概に|いちがいに|adv|unconditionally; as a rule
+頑なに|かたくなに|adv|obstinately; stubbornly
+予め|あらかじめ|adv|beforehand; in advance
+|ひたすら|adv|earnestly; intently; nothing but
+|ことごとく|adv|altogether; entirely
+功績|こうせき|n|achievement; merit; distinguished service
+緊迫|きんぱく|n,vs|tension; strain
+遥か|はるか|adj-na,adv|far; distant; by far
+辛うじて|かろうじて|adv|barely; narrowly
+未だに|いまだに|adv|still; even now; until now
+恰も|あたかも|adv|as if; as though
+見通し|みとおし|n|prospect; outlook; forecast
+見晴らし|みはらし|n|view; prospect
+見送り|みおくり|n|seeing someone off; postponement
+見落とし|みおとし|n|oversight; overlooking
+些か|いささか|adv|a little; somewhat; rather
+打診|だしん|n,vs|sounding out; percussion
+意向|いこう|n|intention; idea; inclination
+正式|せいしき|adj-na|official; formal
+決定|けってい|n,vs|decision; determination
+報告|ほうこく|n,vs|report; information
+手分け|てわけ|n,vs|division of labour
+作業|さぎょう|n,vs|work; operation
+夕方|ゆうがた|n|evening
+料理|りょうり|n,vs|cooking; cuisine
+財産|ざいさん|n|property; fortune; assets
+道具|どうぐ|n|tool; implement
+分担|ぶんたん|n,vs|sharing (a task); apportionment
+困難|こんなん|adj-na|difficulty; hardship
+意味|いみ|n,vs|meaning; significance
+不可能|ふかのう|adj-na|impossible
+語順|ごじゅん|n|word order
+近年|きんねん|n|recent years
+読書|どくしょ|n,vs|reading
+離れる|はなれる|v1|to be separated; to leave
+図書館|としょかん|n|library
+利用者|りようしゃ|n|user
+利用|りよう|n,vs|use; utilization
+地域|ちいき|n|area; region
+電子書籍|でんししょせき|n|e-book
+普及|ふきゅう|n,vs|diffusion; spread; popularization
+機会|きかい|n|chance; opportunity
+失う|うしなう|v5|to lose
+改めて|あらためて|adv|again; anew; once more
+一般的|いっぱんてき|adj-na|general; typical
+事実|じじつ|n|fact; truth
+伴う|ともなう|v5|to accompany; to be accompanied by
+筆者|ひっしゃ|n|writer; author
+主張|しゅちょう|n,vs|claim; assertion; insistence
+控えめ|ひかえめ|adj-na|moderate; reserved
+失敗|しっぱい|n,vs|failure; mistake
+恐れる|おそれる|v1|to fear; to be afraid of
+挑戦|ちょうせん|n,vs|challenge; attempt
+成功|せいこう|n,vs|success
+空き家|あきや|n|vacant house
+改装|かいそう|n,vs|remodeling; renovation
+芸術家|げいじゅつか|n|artist
+貸し出す|かしだす|v5|to lend; to rent out
+取り組み|とりくみ|n|effort; initiative
+取り組む|とりくむ|v5|to tackle; to grapple with
+当初|とうしょ|n|beginning; at first
+住民|じゅうみん|n|resident; inhabitant
+反対|はんたい|n,vs,adj-na|opposition; the opposite
+祭り|まつり|n|festival
+参加|さんか|n,vs|participation
+教室|きょうしつ|n|classroom; class
+雰囲気|ふんいき|n|atmosphere; mood
+観光客|かんこうきゃく|n|tourist
+訪れる|おとずれる|v1|to visit; to arrive
+商店街|しょうてんがい|n|shopping street
+活気|かっき|n|energy; liveliness
+戻る|もどる|v5|to return; to go back
+歓迎|かんげい|n,vs|welcome
+関心|かんしん|n|concern; interest
+自ら|みずから|n,adv|oneself; personally
+取り壊す|とりこわす|v5|to demolish
+家賃|やちん|n|rent
+値上げ|ねあげ|n,vs|price increase
+便利|べんり|adj-na|convenient; handy
+求める|もとめる|v1|to want; to seek; to request
+発達|はったつ|n,vs|development; growth
+手放す|てばなす|v5|to let go of; to part with
+地図|ちず|n|map
+頼る|たよる|v5|to rely on; to depend on
+迷う|まよう|v5|to lose one's way; to be puzzled
+構造|こうぞう|n|structure; construction
+描く|えがく|v5|to draw; to depict
+育つ|そだつ|v5|to be raised; to grow
+計算機|けいさんき|n|calculator
+暗算|あんざん|n,vs|mental arithmetic
+不要|ふよう|adj-na|unnecessary
+感覚|かんかく|n|sense; sensation
+鈍る|にぶる|v5|to become dull; to weaken
+任せる|まかせる|v1|to entrust; to leave to
+担う|になう|v5|to carry; to bear; to shoulder
+意識的|いしきてき|adj-na|conscious; deliberate
+選ぶ|えらぶ|v5|to choose; to select
+否定|ひてい|n,vs|denial; negation
+誤解|ごかい|n,vs|misunderstanding
+積極的|せっきょくてき|adj-na|positive; active; proactive
+在宅勤務|ざいたくきんむ|n|working from home
+通勤|つうきん|n,vs|commuting to work
+余裕|よゆう|n|surplus; margin; composure
+集中|しゅうちゅう|n,vs|concentration
+環境|かんきょう|n|environment; circumstance
+整える|ととのえる|v1|to put in order; to arrange
+利点|りてん|n|advantage; point in favor
+問題点|もんだいてん|n|problem; point at issue
+若手|わかて|n|young person; younger member
+先輩|せんぱい|n|senior; superior
+同僚|どうりょう|n|coworker; colleague
+雑談|ざつだん|n,vs|chatting; small talk
+発想|はっそう|n,vs|idea; conception
+交流|こうりゅう|n,vs|exchange; interaction
+効率|こうりつ|n|efficiency
+支配|しはい|n,vs|rule; control; domination
+場面|ばめん|n|scene; situation
+時短|じたん|n|reduced working hours; time-saving
+要約|ようやく|n,vs|summary; summarization
+予定|よてい|n,vs|plans; schedule
+詰め込む|つめこむ|v5|to cram; to stuff
+無駄|むだ|adj-na|futility; waste
+思いがけない|おもいがけない|adj-i|unexpected
+発見|はっけん|n,vs|discovery
+回り道|まわりみち|n,vs|detour
+景色|けしき|n|scenery; landscape
+物差し|ものさし|n|ruler; measure; criterion
+貧しい|まずしい|adj-i|poor; needy; meagre
+重視|じゅうし|n,vs|attaching importance to
+価値|かち|n|value; worth
+徹底|てってい|n,vs|thoroughness
+基準|きじゅん|n|standard; basis; criterion
+豊か|ゆたか|adj-na|abundant; rich
+英会話|えいかいわ|n|English conversation
+陶芸|とうげい|n|ceramics; pottery
+入門|にゅうもん|n,vs|introduction; primer
+写真|しゃしん|n|photograph
+平日|へいじつ|n|weekday
+資料|しりょう|n|materials; data; documents
+部長|ぶちょう|n|department manager
+確認|かくにん|n,vs|confirmation; check
+修正|しゅうせい|n,vs|amendment; correction
+会議室|かいぎしつ|n|conference room
+予約|よやく|n,vs|reservation; booking
+外出|がいしゅつ|n,vs|going out
+公園|こうえん|n|park
+職場|しょくば|n|workplace
+決め手|きめて|n|deciding factor; clincher
+昼寝|ひるね|n,vs|nap
+集中力|しゅうちゅうりょく|n|ability to concentrate
+空席|くうせき|n|vacant seat
+尋ねる|たずねる|v1|to ask; to inquire
+定員|ていいん|n|capacity; fixed number of people
+適切|てきせつ|adj-na|appropriate; suitable
+表現|ひょうげん|n,vs|expression; representation
+内容|ないよう|n|contents; substance
+述べる|のべる|v1|to state; to express; to mention
+程度|ていど|n|degree; extent; level
+将来|しょうらい|n|future
+予測|よそく|n,vs|prediction; forecast
+楽観的|らっかんてき|adj-na|optimistic
+確かめる|たしかめる|v1|to ascertain; to check
+仕事|しごと|n|work; job
+連動|れんどう|n,vs|linkage; gearing
+変化|へんか|n,vs|change; variation
+正しい|ただしい|adj-i|right; correct
+最後|さいご|n|end; last
+文章|ぶんしょう|n|sentence; writing; composition
+段落|だんらく|n|paragraph
+文脈|ぶんみゃく|n|context
+選択肢|せんたくし|n|choices; options
+解説|かいせつ|n,vs|explanation; commentary
+文法|ぶんぽう|n|grammar
+語彙|ごい|n|vocabulary
+漢字|かんじ|n|kanji; Chinese characters
+読み方|よみかた|n|reading; pronunciation
+言い換え|いいかえ|n,vs|paraphrase
+用法|ようほう|n|usage
+接続|せつぞく|n,vs|connection
+前後|ぜんご|n|before and after; context
+意図|いと|n,vs|intention; aim
+明確|めいかく|adj-na|clear; precise
+目的|もくてき|n|purpose; objective
+理由|りゆう|n|reason
+結論|けつろん|n,vs|conclusion
+根拠|こんきょ|n|basis; grounds
+具体的|ぐたいてき|adj-na|concrete; specific
+抽象的|ちゅうしょうてき|adj-na|abstract
+必要|ひつよう|adj-na|necessary; needed
+状況|じょうきょう|n|circumstances; situation
+判断|はんだん|n,vs|judgement; decision
+態度|たいど|n|attitude; manner
+指摘|してき|n,vs|pointing out; indication
+批判|ひはん|n,vs|criticism
+提案|ていあん|n,vs|proposal; suggestion
+影響|えいきょう|n,vs|influence; effect
+傾向|けいこう|n|tendency; trend
+結果|けっか|n|result; consequence
+原因|げんいん|n|cause; origin
+対象|たいしょう|n|target; object
+対策|たいさく|n|countermeasure
+課題|かだい|n|task; problem; issue
+検討|けんとう|n,vs|consideration; examination
+実施|じっし|n,vs|enforcement; implementation
+導入|どうにゅう|n,vs|introduction; bringing in
+維持|いじ|n,vs|maintenance; preservation
+促進|そくしん|n,vs|promotion; acceleration
+抑制|よくせい|n,vs|control; restraint; suppression
+推進|すいしん|n,vs|propulsion; promotion
+削減|さくげん|n,vs|reduction; cut
+拡大|かくだい|n,vs|expansion; magnification
+縮小|しゅくしょう|n,vs|reduction; curtailment
+増加|ぞうか|n,vs|increase; addition
+減少|げんしょう|n,vs|decrease; decline
+吟味|ぎんみ|n,vs|careful examination; scrutiny
+模索|もさく|n,vs|groping; searching
+打開|だかい|n,vs|breakthrough; development
+頓挫|とんざ|n,vs|setback; impasse
+画期的|かっきてき|adj-na|epoch-making; revolutionary
+抜本的|ばっぽんてき|adj-na|drastic; radical
+曖昧|あいまい|adj-na|vague; ambiguous
+緻密|ちみつ|adj-na|minute; fine; precise
+柔軟|じゅうなん|adj-na|flexible; pliable
+慎重|しんちょう|adj-na|careful; prudent
+率直|そっちょく|adj-na|frank; candid
+露骨|ろこつ|adj-na|open; blunt; undisguised
+寛容|かんよう|adj-na|tolerance; forbearance
+謙虚|けんきょ|adj-na|modest; humble
+怠慢|たいまん|adj-na|negligence
+未熟|みじゅく|adj-na|inexperienced; immature
+老朽|ろうきゅう|n,vs|decrepitude; wearing out
+閑静|かんせい|adj-na|quiet (area); peaceful
+殺到|さっとう|n,vs|rush; flood
+寄与|きよ|n,vs|contribution; service
+依存|いぞん|n,vs|dependence; reliance
+委託|いたく|n,vs|entrusting; consignment
+一任|いちにん|n,vs|entrusting; leaving (a matter) to
+介入|かいにゅう|n,vs|intervention
+回避|かいひ|n,vs|avoidance; evasion
+還元|かんげん|n,vs|restoration; return
+勧誘|かんゆう|n,vs|invitation; solicitation
+貫禄|かんろく|n|presence; dignity
+規制|きせい|n,vs|regulation; control
+気配|けはい|n|indication; sign; hint
+見解|けんかい|n|opinion; point of view
+口実|こうじつ|n|excuse; pretext
+交渉|こうしょう|n,vs|negotiations
+考慮|こうりょ|n,vs|consideration
+誇張|こちょう|n,vs|exaggeration
+根回し|ねまわし|n,vs|laying the groundwork
+遮る|さえぎる|v5|to interrupt; to obstruct
+支障|ししょう|n|obstacle; hindrance
+趣旨|しゅし|n|meaning; point; gist
+狙い|ねらい|n|aim
+仕組み|しくみ|n|structure; mechanism
+充実|じゅうじつ|n,vs|fullness; completeness
+重宝|ちょうほう|adj-na,n,vs|convenient; useful
+処置|しょち|n,vs|treatment; measure
+進捗|しんちょく|n,vs|progress
+浸透|しんとう|n,vs|permeation; penetration
+衰退|すいたい|n,vs|decline; degeneration
+杜撰|ずさん|adj-na|careless; slipshod
+先行き|さきゆき|n|future prospects
+相殺|そうさい|n,vs|offsetting; cancelling out
+総じて|そうじて|adv|in general; on the whole
+阻止|そし|n,vs|obstruction; prevention
+妥当|だとう|adj-na|valid; proper; appropriate
+多岐|たき|adj-na|wide range; many fields
+台無し|だいなし|adj-na|mess; spoiled
+脱退|だったい|n,vs|withdrawal; secession
+忠告|ちゅうこく|n,vs|advice; warning
+調達|ちょうたつ|n,vs|procurement; supply
+陳腐|ちんぷ|adj-na|stale; hackneyed
+痛切|つうせつ|adj-na|keen; acute; poignant
+手掛かり|てがかり|n|clue; key
+手元|てもと|n|at hand; on hand
+転嫁|てんか|n,vs|shifting (responsibility)
+動揺|どうよう|n,vs|disturbance; agitation
+特権|とっけん|n|privilege
+突如|とつじょ|adv|suddenly
+捗る|はかどる|v5|to make progress; to move right ahead
+破綻|はたん|n,vs|failure; bankruptcy; collapse
+発揮|はっき|n,vs|exhibition; demonstration (of ability)
+反発|はんぱつ|n,vs|repulsion; opposition
+煩わしい|わずらわしい|adj-i|troublesome; annoying
+必至|ひっし|adj-na|inevitable
+不備|ふび|adj-na|deficiency; defect
+赴く|おもむく|v5|to go; to proceed; to become
+膨大|ぼうだい|adj-na|huge; enormous
+保守|ほしゅ|n,vs|conservatism; maintenance
+摩擦|まさつ|n,vs|friction
+見込み|みこみ|n|prospects; expectation
+見せびらかす|みせびらかす|v5|to show off
+名残|なごり|n|remains; traces; parting
+目論む|もくろむ|v5|to plan; to scheme
+有数|ゆうすう|adj-na|prominent; leading
+由緒|ゆいしょ|n|history; lineage; pedigree
+融通|ゆうずう|n,vs|flexibility; adaptability; lending
+要望|ようぼう|n,vs|demand; request
+抑える|おさえる|v1|to hold back; to restrain
+乱用|らんよう|n,vs|abuse; misuse
+履歴|りれき|n|history; record
+朗報|ろうほう|n|good news
+和らげる|やわらげる|v1|to soften; to moderate; to relieve
+枠組み|わくぐみ|n|framework
+怠る|おこたる|v5|to neglect; to be negligent
+陥る|おちいる|v5|to fall into; to lapse into
+衰える|おとろえる|v1|to become weak; to decline
+顧みる|かえりみる|v1|to look back; to reflect
+掲げる|かかげる|v1|to publish; to hoist; to hold up
+嵩む|かさむ|v5|to pile up; to increase
+稼ぐ|かせぐ|v5|to earn income
+叶う|かなう|v5|to come true
+構える|かまえる|v1|to set up; to assume a posture
+絡む|からむ|v5|to entangle; to be involved
+築く|きずく|v5|to build; to construct
+鍛える|きたえる|v1|to forge; to train
+悔やむ|くやむ|v5|to regret; to mourn
+凝らす|こらす|v5|to concentrate; to devote
+遡る|さかのぼる|v5|to go back; to date back
+退く|しりぞく|v5|to retreat; to withdraw
+据える|すえる|v1|to set; to place; to install
+廃れる|すたれる|v1|to become obsolete; to go out of use
+携える|たずさえる|v1|to carry in one's hand
+称える,讃える|たたえる|v1|to praise; to extol
+辿る|たどる|v5|to follow (a road); to trace
+費やす|ついやす|v5|to spend; to devote
+償う|つぐなう|v5|to make up for; to compensate
+努める|つとめる|v1|to endeavor; to strive
+貫く|つらぬく|v5|to go through; to carry out
+途絶える|とだえる|v1|to stop; to cease; to come to an end
+整う|ととのう|v5|to be prepared; to be in order
+唱える|となえる|v1|to recite; to advocate
+嘆く|なげく|v5|to lament; to grieve
+慰める|なぐさめる|v1|to comfort; to console
+倣う|ならう|v5|to imitate; to follow
+粘る|ねばる|v5|to persevere; to be sticky
+臨む|のぞむ|v5|to face; to attend
+図る|はかる|v5|to plan; to attempt; to devise
+励む|はげむ|v5|to strive; to endeavour
+弾む|はずむ|v5|to bounce; to become lively
+果たす|はたす|v5|to accomplish; to fulfill
+控える|ひかえる|v1|to refrain; to be moderate
+秘める|ひめる|v1|to hide; to keep to oneself
+踏まえる|ふまえる|v1|to be based on; to take into account
+隔てる|へだてる|v1|to separate; to isolate
+報いる|むくいる|v1|to reward; to repay
+設ける|もうける|v1|to establish; to set up
+催す|もよおす|v5|to hold (an event)
+漏らす|もらす|v5|to let leak; to reveal
+養う|やしなう|v5|to nurture; to support
+揺らぐ|ゆらぐ|v5|to sway; to waver
+委ねる|ゆだねる|v1|to entrust to
+緩む|ゆるむ|v5|to become loose; to relax
+蘇る|よみがえる|v5|to be resurrected; to revive
+患う|わずらう|v5|to suffer from (an illness)
+渡る|わたる|v5|to cross; to extend over
+詫びる|わびる|v1|to apologize
+呆気ない|あっけない|adj-i|not enough; too quick; short
+厚かましい|あつかましい|adj-i|impudent; shameless
+慌ただしい|あわただしい|adj-i|busy; hurried
+痛ましい|いたましい|adj-i|pitiful; heartbreaking
+疎い|うとい|adj-i|distant; unfamiliar with
+恭しい|うやうやしい|adj-i|respectful; reverent
+頼もしい|たのもしい|adj-i|reliable; promising
+乏しい|とぼしい|adj-i|meagre; scarce; poor
+名高い|なだかい|adj-i|famous; celebrated
+情けない|なさけない|adj-i|miserable; shameful
+甚だしい|はなはだしい|adj-i|extreme; excessive
+久しい|ひさしい|adj-i|long; long-continued
+相応しい|ふさわしい|adj-i|appropriate; suitable
+望ましい|のぞましい|adj-i|desirable
+険しい|けわしい|adj-i|steep; severe; stern
+心細い|こころぼそい|adj-i|helpless; forlorn
+素っ気ない|そっけない|adj-i|cold; curt
+手厚い|てあつい|adj-i|cordial; warm; generous
+目まぐるしい|めまぐるしい|adj-i|hectic; bewildering
+依然|いぜん|adv,adj-na|still; as yet
+一向に|いっこうに|adv|completely; (not) at all
+一段と|いちだんと|adv|greater; more; further
+大まか|おおまか|adj-na|rough; broad
+恐らく|おそらく|adv|perhaps; probably
+概ね|おおむね|adv|in general; mostly
+極めて|きわめて|adv|exceedingly; extremely
+強いて|しいて|adv|by force; necessarily
+専ら|もっぱら|adv|wholly; solely; entirely
+敢えて|あえて|adv|purposely; daringly
+徐々に|じょじょに|adv|gradually
+次第に|しだいに|adv|gradually
+即座に|そくざに|adv|immediately; right away
+断じて|だんじて|adv|absolutely; by all means (not)
+到底|とうてい|adv|(cannot) possibly; at all
+何卒|なにとぞ|adv|please; kindly
+甚だ|はなはだ|adv|very; greatly
+殊に|ことに|adv|especially
+更に|さらに|adv|furthermore; again
+漸く|ようやく|adv|finally; at last; barely
+|さほど|adv|not so much; not very
+|むしろ|adv|rather; instead
+|まして|adv|still more; all the more
+|せめて|adv|at least
+|たとえ|adv|even if
+|ところが|conj|however; even so
+|したがって|conj|therefore; consequently
+|つまり|adv|in short; that is to say
+|なぜなら|conj|because
+|とはいえ|conj|though; nonetheless
+その上|そのうえ|conj|in addition; furthermore
+|それゆえ|conj|therefore; for that reason
+|すなわち|conj|that is; namely
+読む|よむ|v5|to read
+考える|かんがえる|v1|to think; to consider
+考え|かんがえ|n|thinking; idea
+言う|いう|v5|to say
+思う|おもう|v5|to think; to feel
+使う|つかう|v5|to use
+行う|おこなう|v5|to perform; to carry out
+知る|しる|v5|to know; to learn
+分かる|わかる|v5|to understand
+異なる|ことなる|v5|to differ; to vary
+示す|しめす|v5|to show; to indicate
+表す|あらわす|v5|to express; to represent
+答える|こたえる|v1|to answer; to reply
+答え|こたえ|n|answer; reply
+決める|きめる|v1|to decide
+与える|あたえる|v1|to give; to provide
+受ける|うける|v1|to receive; to undergo
+持つ|もつ|v5|to hold; to have
+生む|うむ|v5|to give birth; to produce
+働く|はたらく|v5|to work
+学ぶ|まなぶ|v5|to study; to learn
+足りる|たりる|v1|to be sufficient; to be enough
+得る|える|v1|to get; to obtain
+増える|ふえる|v1|to increase
+減る|へる|v5|to decrease
+変わる|かわる|v5|to change
+進む|すすむ|v5|to advance; to progress
+続く|つづく|v5|to continue
+始める|はじめる|v1|to begin; to start
+終わる|おわる|v5|to end; to finish
+人|ひと|n|person; people
+町|まち|n|town
+道|みち|n|road; way
+力|ちから|n|strength; ability
+数|かず|n|number
+紙|かみ|n|paper
+本|ほん|n|book
+文|ぶん|n|sentence; writing
+頭|あたま|n|head
+時間|じかん|n|time; hours
+生活|せいかつ|n,vs|life; living
+言葉|ことば|n|word; language
+私|わたし|n|I; me
+自分|じぶん|n|oneself
+相手|あいて|n|partner; the other party
+世界|せかい|n|world
+社会|しゃかい|n|society
+会社|かいしゃ|n|company
+会社員|かいしゃいん|n|company employee
+大切|たいせつ|adj-na|important; precious
+問題|もんだい|n|problem; question
+質問|しつもん|n,vs|question; inquiry
+場合|ばあい|n|case; situation
+機能|きのう|n,vs|function; faculty
+情報|じょうほう|n|information
+経済|けいざい|n|economy
+政府|せいふ|n|government
+企業|きぎょう|n|enterprise; company
+技術|ぎじゅつ|n|technology; skill
+研究|けんきゅう|n,vs|research; study
+教育|きょういく|n,vs|education
+文化|ぶんか|n|culture
+歴史|れきし|n|history
+自然|しぜん|n,adj-na|nature; natural
+関係|かんけい|n,vs|relation; connection
+方法|ほうほう|n|method; means
+説明|せつめい|n,vs|explanation
+現在|げんざい|n|present; current
+現代|げんだい|n|modern times; today
+若者|わかもの|n|young people
+子供,子ども|こども|n|child
+街|まち|n|town; streets
+会議|かいぎ|n,vs|meeting; conference
+若い|わかい|adj-i|young
+安い|やすい|adj-i|cheap; inexpensive
+新しい|あたらしい|adj-i|new
+`;
+
+export const DICTIONARY: DictionaryEntry[] = DICTIONARY_SOURCE.trim().split("\n").map((line, id) => {
+  const [kanji, readings, pos, glosses] = line.split("|");
+  return {
+    id,
+    kanji: kanji ? kanji.split(",") : [],
+    readings: readings.split(","),
+    pos: pos.split(",") as PartOfSpeech[],
+    glosses: glosses.split("; "),
+  };
+});
+
+// --- Index ---
+
+const KANJI = /[㐀-鿿々〆ヶ]/;
+const isKanji = (char?: string) => !!char && KANJI.test(char);
+
+// Kana that may follow the stem of an inflected word, so 携わっ matches 携わる but 一行 does not match 行う
+const GODAN_ROWS: Record<string, string> = {
+  う: "わいうえおっ",
+  く: "かきくけこい",
+  ぐ: "がぎぐげごい",
+  す: "さしすせそ",
+  つ: "たちつてとっ",
+  ぬ: "なにぬねのん",
+  ぶ: "ばびぶべぼん",
+  む: "まみむめもん",
+  る: "らりるれろっ",
+};
+const ICHIDAN_NEXT = "るれろよなまたてさらずぬ";
+const ADJECTIVE_NEXT = "いくかけさそみすき";
+
+interface IndexedForm {
+  entry: DictionaryEntry;
+  parts: FuriganaPart[];
+  next?: string; // Set when the key is a stem; the text must continue with one of these
+}
+
+// Splits the written form into kanji and kana runs and reads each kanji run off the reading:
+// 取り組む + とりくむ gives 取(と) り 組(く) む. Forms that do not line up get one reading over the whole word.
+const alignReading = (written: string, reading: string): FuriganaPart[] => {
+  const runs = written.match(/[㐀-鿿々〆ヶ]+|[^㐀-鿿々〆ヶ]+/g) ?? [];
+  const pattern = runs.map(run => (isKanji(run[0]) ? "(.+?)" : run.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))).join("");
+  const match = reading.match(new RegExp(`^${pattern}$`));
+  if (!match) return [{ text: written, reading }];
+  let group = 1;
+  return runs.map(run => (isKanji(run[0]) ? { text: run, reading: match[group++] } : { text: run }));
+};
+
+const inflectionNext = (entry: DictionaryEntry, form: string): string | undefined => {
+  const last = form[form.length - 1];
+  if (entry.pos.includes("v5")) return GODAN_ROWS[last];
+  if (entry.pos.includes("v1") && last === "る") return ICHIDAN_NEXT;
+  if (entry.pos.includes("adj-i") && last === "い") return ADJECTIVE_NEXT;
+  return undefined;
+};
+
+const INDEX = new Map<string, IndexedForm[]>();
+let longestKey = 0;
+
+const addForm = (key: string, form: IndexedForm) => {
+  INDEX.set(key, [...(INDEX.get(key) ?? []), form]);
+  longestKey = Math.max(longestKey, key.length);
+};
+
+DICTIONARY.forEach(entry => {
+  const reading = entry.readings[0];
+  const forms = [...entry.kanji.map(k => ({ written: k, parts: alignReading(k, reading) })), ...entry.readings.map(r => ({ written: r, parts: [{ text: r }] }))];
+  forms.forEach(({ written, parts }) => {
+    addForm(written, { entry, parts });
+    const next = inflectionNext(entry, written);
+    if (!next) return;
+    const last = parts[parts.length - 1];
+    const stemParts = last.text.length > 1 ? [...parts.slice(0, -1), { text: last.text.slice(0, -1) }] : parts.slice(0, -1);
+    addForm(written.slice(0, -1), { entry, parts: stemParts, next });
+  });
+});
+
+// Longest key at `start`. A lone kanji only counts when it stands on its own, since inside an
+// unknown compound it is usually read differently (町 is まち, 町内 is ちょうない).
+const matchAt = (text: string, start: number, checkBefore: boolean): { key: string, forms: IndexedForm[] } | null => {
+  for (let length = Math.min(longestKey, text.length - start); length > 0; length--) {
+    const key = text.slice(start, start + length);
+    const after = text[start + length];
+    const forms = (INDEX.get(key) ?? []).filter(form => {
+      if (form.next && !(after && form.next.includes(after))) return false;
+      if (length === 1 && isKanji(key)) {
+        if (checkBefore && isKanji(text[start - 1])) return false;
+        if (!form.next && isKanji(after)) return false;
+      }
+      return true;
+    });
+    if (forms.length > 0) return { key, forms };
+  }
+  return null;
+};
+
+// --- Lookup ---
+
+// Looks up the word at the start of `text`, e.g. the characters after the point the learner tapped
+export const lookupWord = (text: string): DictionaryMatch | null => {
+  const match = matchAt(text.trim(), 0, false);
+  if (!match) return null;
+  const entries = [...new Map(match.forms.map(f => [f.entry.id, f.entry])).values()];
+  return { surface: match.key, entries };
+};
+
+// Splits text into dictionary words written with kanji, carrying ruby, and plain runs in between.
+// Kanji outside the dictionary get no reading rather than a guessed one.
+export const toFurigana = (text: string): FuriganaToken[] => {
+  const tokens: FuriganaToken[] = [];
+  let plain = "";
+  let i = 0;
+  while (i < text.length) {
+    const match = isKanji(text[i]) ? matchAt(text, i, true) : null;
+    const form = match?.forms.find(f => f.parts.some(p => p.reading));
+    if (!match || !form) {
+      plain += text[i];
+      i += 1;
+      continue;
+    }
+    if (plain) tokens.push({ text: plain });
+    plain = "";
+    tokens.push({ text: match.key, parts: form.parts, entry: form.entry });
+    i += match.key.length;
+  }
+  if (plain) tokens.push({ text: plain });
+  return tokens;
+};
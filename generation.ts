@@ -0,0 +1,547 @@
+// Question generation shared by the app and the API server: Mondai definitions, the content
+// model, prompts and validation. Nothing here may touch the DOM or browser storage.
+
+// --- Types ---
+
+export type MondaiId = 
+  | "vocab_readings"    // P1
+  | "vocab_context"     // P2
+  | "vocab_paraphrase"  // P3
+  | "vocab_usage"       // P4
+  | "grammar_selection" // P5
+  | "grammar_order"     // P6
+  | "grammar_text"      // P7
+  | "reading_short"     // P8 (New)
+  | "reading_medium"    // P9 (New)
+  | "reading_long"      // P10
+  | "reading_integrated" // P11
+  | "reading_thematic"  // P12
+  | "reading_info"      // P13
+  | "listening_task"    // 聴解 P1
+  | "listening_point"   // 聴解 P2
+  | "listening_summary" // 聴解 P3
+  | "listening_response" // 聴解 P4
+  | "listening_integrated" // 聴解 P5
+  | "review_mistakes"   // Review Mode
+  | "adaptive_session"  // Due reviews mixed with weak-area practice
+  | "mock_exam";        // Full-length Mock Exam
+
+export interface MondaiConfig {
+  id: MondaiId;
+  section: "Vocabulary" | "Grammar" | "Reading" | "Listening" | "Review" | "Mock";
+  label: string;
+  subLabel: string;
+  count: number;
+  points?: number; // Estimated raw points per item on the real exam (defaults to 1)
+  questionsPerPassage?: number; // Reading Mondai that ask several questions about one passage
+  pace?: number; // Target seconds per item to finish the real paper in time
+  targets?: StudyTarget[]; // Grammar points or words the learner picked to drill; injected into the prompt
+  difficulty?: "standard" | "hard"; // Set by the adaptive engine after a streak of correct answers
+  weakItems?: string[]; // Tagged items the learner keeps missing; the prompt revisits them
+  optionCount?: number; // Defaults to 4 (即時応答 has 3)
+  optionsSpoken?: boolean; // Listening Mondai whose question and options are only heard, not printed
+  description: string;
+}
+
+export const MONDAI_LIST: MondaiConfig[] = [
+  { id: "vocab_readings", section: "Vocabulary", label: "問題1 漢字読み", subLabel: "Kanji Readings", count: 6, points: 1, pace: 20, description: "Select the correct reading for the underlined word." },
+  { id: "vocab_context", section: "Vocabulary", label: "問題2 文脈規定", subLabel: "Context", count: 7, points: 1, pace: 30, description: "Fill in the blank with the most appropriate word." },
+  { id: "vocab_paraphrase", section: "Vocabulary", label: "問題3 言い換え", subLabel: "Paraphrases", count: 6, points: 1, pace: 30, description: "Select the word closest in meaning." },
+  { id: "vocab_usage", section: "Vocabulary", label: "問題4 用法", subLabel: "Usage", count: 6, points: 2, pace: 60, description: "Select the sentence that uses the word correctly." },
+  { id: "grammar_selection", section: "Grammar", label: "問題5 文法形式", subLabel: "Grammar", count: 10, points: 1, pace: 40, description: "Select the correct grammar form." },
+  { id: "grammar_order", section: "Grammar", label: "問題6 並べ替え", subLabel: "Composition", count: 5, points: 2, pace: 60, description: "Choose the item that fits in the ★ position." },
+  { id: "grammar_text", section: "Grammar", label: "問題7 文章の文法", subLabel: "Text Grammar", count: 5, points: 2, pace: 90, questionsPerPassage: 5, description: "Choose what best fits each numbered blank in the passage." },
+  { id: "reading_short", section: "Reading", label: "問題8 短文", subLabel: "Short Passage", count: 4, points: 2, pace: 150, description: "Read a short text (~200 chars) and answer the question." },
+  { id: "reading_medium", section: "Reading", label: "問題9 中文", subLabel: "Medium Passage", count: 9, points: 2, pace: 140, questionsPerPassage: 3, description: "Read medium texts (~500 chars) and answer three questions on each." },
+  { id: "reading_long", section: "Reading", label: "問題10 長文", subLabel: "Long Passage", count: 4, points: 3, pace: 180, questionsPerPassage: 4, description: "Read a long text (~1000 chars) and answer four questions on it." },
+  { id: "reading_integrated", section: "Reading", label: "問題11 統合理解", subLabel: "Integrated Comprehension", count: 2, points: 3, pace: 200, questionsPerPassage: 2, description: "Compare two texts (A and B) and answer two questions on them." },
+  { id: "reading_thematic", section: "Reading", label: "問題12 主張理解", subLabel: "Thematic Comprehension", count: 4, points: 3, pace: 180, questionsPerPassage: 4, description: "Read an argumentative essay (~1000 chars) and grasp the author's claim." },
+  { id: "reading_info", section: "Reading", label: "問題13 情報検索", subLabel: "Information Retrieval", count: 2, points: 3, pace: 300, questionsPerPassage: 2, description: "Find the needed information in a notice or table." },
+  { id: "listening_task", section: "Listening", label: "聴解 問題1 課題理解", subLabel: "Task-based", count: 5, points: 2, description: "Listen to a conversation and decide what to do next." },
+  { id: "listening_point", section: "Listening", label: "聴解 問題2 ポイント理解", subLabel: "Point", count: 6, points: 2, description: "Listen for the reason or key point the question asks about." },
+  { id: "listening_summary", section: "Listening", label: "聴解 問題3 概要理解", subLabel: "Summary", count: 5, points: 2, optionsSpoken: true, description: "Grasp the speaker's main point; question and options are heard only." },
+  { id: "listening_response", section: "Listening", label: "聴解 問題4 即時応答", subLabel: "Quick Response", count: 11, points: 1, optionCount: 3, optionsSpoken: true, description: "Choose the best reply to a short utterance." },
+  { id: "listening_integrated", section: "Listening", label: "聴解 問題5 統合理解", subLabel: "Integrated", count: 3, points: 3, description: "Follow a longer discussion and combine the information." },
+];
+
+// Structured question body; rendering is left entirely to components
+export interface QuestionContent {
+  passage?: string;  // Reading text (plain text, paragraphs separated by newlines)
+  passageB?: string; // Second text of an A/B comparison (統合理解)
+  table?: ContentTable; // Tabular material (情報検索)
+  script?: ScriptLine[]; // Listening script, revealed as a transcript after answering
+  stem: string;      // Sentence or question, plain text with blanks removed
+  target?: { start: number; length: number }; // Underlined span of `stem` being tested
+  blanks: number[];  // Offsets into `stem` where each blank sits, in order
+  starSlot?: number; // Index into `blanks` of the ★ slot (並べ替え only)
+}
+
+export type Voice = "male" | "female" | "narrator";
+
+export interface ScriptLine {
+  speaker: string; // Role as printed in the transcript, e.g. 男の人
+  voice: Voice;
+  text: string;
+}
+
+export interface ContentTable {
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface Question {
+  id: string; // Unique ID for deduplication
+  question: string; // Plain-text rendering of `content`, used for searching and matching
+  content: QuestionContent;
+  options: string[];
+  correctAnswerIndex: number;
+  correctOrder?: number[]; // 並べ替え: option index for each blank, left to right
+  explanation: string;
+  categoryLabel?: string; // To track where the mistake came from
+  mondaiId?: MondaiId; // Source Mondai, used for per-Mondai scoring
+  groupId?: string; // Shared by questions asked about the same passage
+  testedItem?: string; // Grammar point or word the item tests
+  timestamp?: number;
+}
+
+// What every provider must supply. Blanks are written inline in `stem` (＿＿, （　　）or ★)
+// and `target` repeats the underlined word; both are resolved into a QuestionContent.
+export interface RawQuestion {
+  passage?: string;
+  passageB?: string;
+  table?: ContentTable;
+  script?: ScriptLine[];
+  stem: string;
+  target?: string;
+  starSlot?: number;
+  options: string[];
+  correctAnswerIndex: number;
+  correctOrder?: number[];
+  explanation: string;
+  groupId?: string;
+  testedItem?: string;
+}
+
+// A raw question after validation, before ids and labels are attached
+export type ValidQuestion = Pick<Question, "question" | "content" | "options" | "correctAnswerIndex" | "correctOrder" | "explanation" | "groupId" | "testedItem">;
+
+export type TargetKind = "grammar" | "vocab";
+
+export interface StudyTarget {
+  id: string;
+  kind: TargetKind;
+  text: string; // Grammar point as written in textbooks (〜をものともせず) or the word itself
+  reading?: string;
+  meaning?: string;
+}
+
+// --- Helper Functions ---
+
+export const isGroupedMondai = (config: MondaiConfig) => (config.questionsPerPassage ?? 1) > 1;
+
+// Number of passages needed to cover `count` questions
+export const passageCount = (config: MondaiConfig) => Math.ceil(config.count / (config.questionsPerPassage ?? 1));
+
+export const targetKindFor = (config: MondaiConfig): TargetKind | null =>
+  config.section === "Grammar" ? "grammar" : config.section === "Vocabulary" ? "vocab" : null;
+
+// --- Question Content ---
+
+// Blank markers accepted in a raw stem: ＿＿ / ___, （　　）/ (   ), and ★ optionally wrapped in underscores
+export const BLANK_PATTERN = /[_＿]*★[_＿]*|[（(][\s　]*[)）]|[_＿]{2,}/g;
+
+// The server has no DOMParser; there it is enough to strip tags and decode the common entities
+export const toPlainText = (html: string): string =>
+  typeof DOMParser !== "undefined"
+    ? new DOMParser().parseFromString(`<body>${html}</body>`, "text/html").body.textContent ?? ""
+    : html
+      .replace(/<[^>]*>/g, "")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, "&");
+
+// Resolves inline blank markers and the target word into offsets
+export const buildContent = (raw: Pick<RawQuestion, "passage" | "passageB" | "table" | "script" | "stem" | "target" | "starSlot">): QuestionContent => {
+  const blanks: number[] = [];
+  let starSlot = raw.starSlot;
+  let stem = "";
+  let last = 0;
+  for (const match of raw.stem.matchAll(BLANK_PATTERN)) {
+    stem += raw.stem.slice(last, match.index);
+    if (match[0].includes("★")) starSlot = blanks.length;
+    blanks.push(stem.length);
+    last = (match.index ?? 0) + match[0].length;
+  }
+  stem += raw.stem.slice(last);
+
+  const content: QuestionContent = { stem, blanks };
+  if (raw.passage) content.passage = raw.passage;
+  if (raw.passageB) content.passageB = raw.passageB;
+  if (raw.table) content.table = raw.table;
+  if (raw.script) content.script = raw.script;
+  if (starSlot !== undefined && starSlot !== null) content.starSlot = starSlot;
+  const targetText = raw.target?.trim();
+  const start = targetText ? stem.indexOf(targetText) : -1;
+  if (targetText && start !== -1) content.target = { start, length: targetText.length };
+  return content;
+};
+
+// Writes blanks back in as （　　）, or ★ / ＿＿ for 並べ替え slots
+export const stemWithBlanks = (content: QuestionContent): string => {
+  let text = content.stem;
+  for (let slot = content.blanks.length - 1; slot >= 0; slot--) {
+    const marker = content.starSlot === undefined ? "（　　）" : slot === content.starSlot ? "★" : "＿＿";
+    const at = content.blanks[slot];
+    text = text.slice(0, at) + marker + text.slice(at);
+  }
+  return text;
+};
+
+// Turns stored content back into provider output, so an item can go through validateQuestion again
+export const contentToRaw = (content: QuestionContent): Pick<RawQuestion, "passage" | "passageB" | "table" | "script" | "stem" | "target"> => ({
+  passage: content.passage,
+  passageB: content.passageB,
+  table: content.table,
+  script: content.script,
+  stem: stemWithBlanks(content),
+  target: content.target && content.stem.substr(content.target.start, content.target.length),
+});
+
+export const tableToText = (table: ContentTable): string =>
+  [table.caption, table.headers.join("\t"), ...table.rows.map(row => row.join("\t"))].filter(Boolean).join("\n");
+
+export const contentToText = (content: QuestionContent): string =>
+  [
+    content.passage,
+    content.passageB,
+    content.table && tableToText(content.table),
+    content.script && content.script.map(line => `${line.speaker}：${line.text}`).join("\n"),
+    stemWithBlanks(content),
+  ].filter(Boolean).join("\n");
+
+// --- API Logic ---
+
+// Per-Mondai prompt templates shared by every LLM provider.
+// Each asks for plain-text fields; blanks and underlines are marked structurally, never with HTML
+export const buildMondaiPrompt = (config: MondaiConfig): string => {
+  switch (config.id) {
+    case "vocab_readings":
+      return `Generate ${config.count} JLPT N1 "Kanji Reading" (Problem 1) questions. 
+      Format: 'stem' is a sentence containing a complex N1 Kanji word. 
+      'target': the kanji word being tested, copied exactly as it appears in the stem (it will be underlined).
+      Options: 4 Hiragana reading choices. Distractors should be very similar readings.`;
+    case "vocab_context":
+      return `Generate ${config.count} JLPT N1 "Context" (Problem 2) questions. 
+      Format: 'stem' is a sentence with one blank written exactly as "（　　）".
+      Options: 4 N1 vocabulary words. Only one fits the context.`;
+    case "vocab_paraphrase":
+      return `Generate ${config.count} JLPT N1 "Paraphrase" (Problem 3) questions. 
+      Format: 'stem' is a sentence containing an N1 word. 
+      'target': the word being tested, copied exactly as it appears in the stem (it will be underlined).
+      Options: 4 words or phrases. Choose the one with the closest meaning to the target.`;
+    case "vocab_usage":
+      return `Generate ${config.count} JLPT N1 "Usage" (Problem 4) questions. 
+      Format: 'stem' is just the Target Word (e.g., "【手際】"). 
+      Options: 4 full sentences using the word. Only one sentence uses the word naturally and correctly.`;
+    case "grammar_selection":
+      return `Generate ${config.count} JLPT N1 "Grammar Selection" (Problem 5) questions. 
+      Format: 'stem' is a sentence with a missing grammar part.
+      Write the blank exactly as "（　　）". Do not use underscores.
+      Options: 4 N1 grammar points.`;
+    case "grammar_order":
+      return `Generate ${config.count} JLPT N1 "Sentence Composition" (Problem 6) questions. 
+      Format: 'stem' is a sentence with 4 consecutive blanks, each written exactly as "＿＿".
+      Example stem: "私は ＿＿ ＿＿ ＿＿ ＿＿ です。"
+      'starSlot': which of the 4 blanks (0-3) is marked with ★.
+      Options: 4 words or fragments to fill the blanks. 
+      Correct Answer: The index of the option that goes in the ★ position. 
+      'correctOrder': the option indices (0-3) in the order they fill the 4 blanks from left to right. correctOrder[starSlot] must equal correctAnswerIndex.
+      Explanation: Explain the correct full sentence order.`;
+    case "grammar_text":
+      return `Generate ${passageCount(config)} JLPT N1 "Text Grammar" (Problem 7) sets.
+      Format:
+      1. 'passage': an N1-level essay (about 600-800 Japanese characters) containing ${config.questionsPerPassage} numbered blanks written as "（ 1 ）", "（ 2 ）" and so on, where grammar forms, conjunctions or referring expressions are missing.
+      2. 'questions': one question per blank, in order. Each 'stem' is "（ n ）に入るのに最もよいものはどれか。" for its blank number n.
+      Options: 4 grammar forms or expressions. Only one fits the flow of the whole text.`;
+    case "reading_short":
+      return `Generate ${config.count} JLPT N1 "Short Passage Reading" (Problem 8) questions.
+      Format: 
+      1. 'passage': an N1-level short reading passage (about 200 Japanese characters) on topics like philosophy, society, or essays.
+      2. 'stem': one question based on the passage (e.g., "What is the author's main point?" or "Why did X happen?").`;
+    case "reading_medium":
+      return `Generate ${passageCount(config)} JLPT N1 "Medium Passage Reading" (Problem 9) sets.
+      Format:
+      1. 'passage': an N1-level medium reading passage (about 400-500 Japanese characters). Topic: Editorial, critique, or abstract essay.
+      2. 'questions': ${config.questionsPerPassage} deeper comprehension questions on it (e.g., the meaning of an underlined phrase, content relationship, author's stance).`;
+    case "reading_long":
+      return `Generate ${passageCount(config)} JLPT N1 "Long Passage Reading" (Problem 10) sets.
+      Format:
+      1. 'passage': an N1-level long reading passage (about 1000 Japanese characters). Topic: essay, commentary, or novel excerpt. Separate paragraphs with newlines.
+      2. 'questions': ${config.questionsPerPassage} questions following the passage from start to end: the author's reasoning, the meaning of a phrase in context, and finally the overall argument.`;
+    case "reading_integrated":
+      return `Generate ${passageCount(config)} JLPT N1 "Integrated Comprehension" (Problem 11) sets.
+      Format:
+      1. 'passage': Text A (about 300-400 Japanese characters) giving one view on a social topic.
+      2. 'passageB': Text B (about 300-400 Japanese characters) on the same topic from a different angle.
+      3. 'questions': ${config.questionsPerPassage} questions comparing the texts (e.g., "AとBの筆者が共通して述べていることは何か。").
+      Do not prefix the texts with "A" or "B"; they are labelled automatically.`;
+    case "reading_thematic":
+      return `Generate ${passageCount(config)} JLPT N1 "Thematic Comprehension" (Problem 12) sets.
+      Format:
+      1. 'passage': an N1-level argumentative essay (about 1000 Japanese characters) with a clear claim. Separate paragraphs with newlines.
+      2. 'questions': ${config.questionsPerPassage} questions on it, the last one about the author's overall claim (e.g., "筆者の考えに合うのはどれか。").`;
+    case "reading_info":
+      return `Generate ${passageCount(config)} JLPT N1 "Information Retrieval" (Problem 13) sets.
+      Format:
+      1. 'passage': the text of a notice, guide or application rules (about 300-500 Japanese characters).
+      2. 'table': the tabular part of the material, with 'caption', 'headers' (column names) and 'rows' (arrays of cell strings, same length as headers), e.g. fees, schedules or eligibility conditions.
+      3. 'questions': ${config.questionsPerPassage} questions, each about a specific person's situation that requires combining the text and the table.`;
+    case "listening_task":
+      return `Generate ${config.count} JLPT N1 "Task-based Comprehension" (聴解 Problem 1) questions.
+      Format:
+      1. 'script': a conversation of 6-10 lines between two people at work or school, ending with one of them needing to decide what to do next.
+      2. 'stem': the question, e.g. "男の人はこのあとまず何をしなければなりませんか。"
+      Options: 4 short actions. Only one is what the person must do first.`;
+    case "listening_point":
+      return `Generate ${config.count} JLPT N1 "Point Comprehension" (聴解 Problem 2) questions.
+      Format:
+      1. 'script': a conversation or monologue of 6-10 lines (interview, discussion, radio talk) where a reason or key point is stated among several distractors.
+      2. 'stem': the question about that reason or point, e.g. "女の人は何が一番問題だと言っていますか。"
+      Options: 4 short statements.`;
+    case "listening_summary":
+      return `Generate ${config.count} JLPT N1 "Summary Comprehension" (聴解 Problem 3) questions.
+      Format:
+      1. 'script': a monologue of 4-8 lines (lecture, radio program, speech) by one speaker, or a short exchange, whose overall theme or the speaker's opinion must be grasped.
+      2. 'stem': the question heard after the talk, e.g. "話のテーマは何ですか。"
+      Options: 4 short statements; they are only heard, so keep each one sentence.`;
+    case "listening_response":
+      return `Generate ${config.count} JLPT N1 "Quick Response" (聴解 Problem 4) questions.
+      Format:
+      1. 'script': exactly one line: a short utterance (often indirect or idiomatic) by one speaker.
+      2. 'stem': "最もよい返事を選んでください。"
+      Options: exactly 3 short replies. Only one is a natural response.`;
+    case "listening_integrated":
+      return `Generate ${config.count} JLPT N1 "Integrated Comprehension" (聴解 Problem 5) questions.
+      Format:
+      1. 'script': a longer conversation of 10-14 lines among two or three people comparing several options (plans, products, courses), introduced by a narrator line.
+      2. 'stem': a question that requires combining the information, e.g. "二人はどのコースを選びますか。"
+      Options: 4 choices.`;
+    default:
+      throw new Error("Invalid config for API generation");
+  }
+};
+
+export const MAX_PROMPT_TARGETS = 20; // More than this are sampled so the prompt stays focused
+
+// Spreads the session over the picked items; a large pick is sampled
+export const buildTargetInstruction = (targets: StudyTarget[]): string => {
+  const picked = targets.length > MAX_PROMPT_TARGETS
+    ? [...targets].sort(() => 0.5 - Math.random()).slice(0, MAX_PROMPT_TARGETS)
+    : targets;
+  const list = picked.map(t => `- ${t.text}${t.reading ? `（${t.reading}）` : ""}${t.meaning ? `: ${t.meaning}` : ""}`).join("\n");
+  return `9. Build every question around one of these items, using as many different items as possible:\n${list}`;
+};
+
+export const buildQuestionPrompt = (config: MondaiConfig): string => `
+    ${buildMondaiPrompt(config)}
+    
+    IMPORTANT: 
+    1. Strictly follow the JLPT N1 difficulty level. 
+    2. PRIORITIZE questions that have appeared in actual past exams (2010-2024). 
+    3. If exact past questions are restricted, generate questions that are indistinguishable from real exam questions in style, tone, and difficulty.
+    4. Provide a detailed explanation in Japanese.
+    5. All fields are plain text. Do NOT use HTML or Markdown.
+    ${config.section === "Listening" ? `6. Everything in 'script', 'stem' and 'options' is read aloud by text-to-speech: write natural spoken Japanese. Each script line has 'speaker' (a role such as "男の人", "女の人", "アナウンサー"), 'voice' ("male", "female" or "narrator") and 'text'.` : ""}
+    ${isGroupedMondai(config) ? `7. Put the material once per set under 'passages'; each question in 'questions' has its own 'stem', 'options', 'correctAnswerIndex' and 'explanation'.` : ""}
+    ${targetKindFor(config) ? `8. Set 'testedItem' to the ${targetKindFor(config) === "grammar" ? "grammar point (e.g. 〜をものともせず)" : "word, in dictionary form,"} the question tests.` : ""}
+    ${config.targets?.length ? buildTargetInstruction(config.targets) : ""}
+    ${config.weakItems?.length ? `10. About half of the questions should revisit these items the learner often gets wrong: ${config.weakItems.join("、")}` : ""}
+    ${config.difficulty === "hard" ? `11. The learner has been answering this Mondai correctly. Make the distractors especially close to the answer: near-synonyms, look-alike kanji, readings that differ by one mora, or forms that differ by a single particle.` : ""}
+  `;
+
+export const SYSTEM_INSTRUCTION = "You are a professional JLPT Exam creator. Output valid JSON.";
+
+export const MATERIAL_FORMAT = `"passage": string (optional), "passageB": string (optional), "table": {"caption": string, "headers": [strings], "rows": [[strings]]} (optional), "script": [{"speaker": string, "voice": "male" | "female" | "narrator", "text": string}] (optional)`;
+
+export const ITEM_FORMAT = `"stem": string, "target": string (optional), "starSlot": 0-3 integer (optional), "options": [4 strings], "correctAnswerIndex": 0-3 integer, "correctOrder": [4 integers] (optional), "explanation": string, "testedItem": string (optional)`;
+
+// Providers without schema-constrained output get the expected shape spelled out instead
+export const buildJsonFormatInstruction = (config: MondaiConfig): string => `
+    Respond with a single JSON object of this exact shape and nothing else:
+    ${isGroupedMondai(config)
+      ? `{"passages": [{${MATERIAL_FORMAT}, "questions": [{${ITEM_FORMAT}}]}]}`
+      : `{"questions": [{${MATERIAL_FORMAT}, ${ITEM_FORMAT}}]}`}
+  `;
+
+// Each question keeps its own copy of the shared material, tied together by `groupId`
+export const flattenPassageGroups = (groups: any[]): RawQuestion[] =>
+  groups.flatMap(group => {
+    const groupId = `group-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const items = Array.isArray(group?.questions) ? group.questions : [];
+    return items.map((q: any) => ({
+      ...q,
+      passage: group.passage,
+      passageB: group.passageB,
+      table: group.table,
+      groupId,
+    }));
+  });
+
+// Pulls the question array out of a model reply, tolerating code fences and a bare top-level array
+export const parseQuestionPayload = (text: string): RawQuestion[] => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  const parsed = JSON.parse(cleaned);
+  if (Array.isArray(parsed.passages)) return flattenPassageGroups(parsed.passages);
+  const rawQuestions = parsed.questions || parsed; // Handle potential schema variance
+  if (!Array.isArray(rawQuestions)) throw new Error("No data returned");
+  return rawQuestions;
+};
+
+// Pulls each complete element out of `{"questions": [{...}, {...}` (or "passages") while the reply
+// is still arriving. Tracks strings so braces inside text don't count; elements sit at depth 3.
+export const createStreamParser = () => {
+  let buffer = "";
+  let pos = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let start = -1;
+
+  return (chunk: string): any[] => {
+    buffer += chunk;
+    const elements: any[] = [];
+    for (; pos < buffer.length; pos++) {
+      const ch = buffer[pos];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === "{" || ch === "[") {
+        depth += 1;
+        if (ch === "{" && depth === 3) start = pos;
+      } else if (ch === "}" || ch === "]") {
+        if (ch === "}" && depth === 3 && start !== -1) {
+          try {
+            elements.push(JSON.parse(buffer.slice(start, pos + 1)));
+          } catch (e) {
+            console.warn("Skipped unparsable streamed element", e);
+          }
+          start = -1;
+        }
+        depth -= 1;
+      }
+    }
+    return elements;
+  };
+};
+
+// --- Validation ---
+
+export const OPTION_COUNT = 4;
+
+// Structural requirements of each Mondai's content
+export const CONTENT_RULES: Partial<Record<MondaiId, (c: QuestionContent) => boolean>> = {
+  vocab_readings: c => !!c.target,
+  vocab_paraphrase: c => !!c.target,
+  vocab_context: c => c.blanks.length === 1,
+  grammar_selection: c => c.blanks.length === 1,
+  grammar_order: c => c.blanks.length === 4 && c.starSlot !== undefined && c.starSlot >= 0 && c.starSlot < 4,
+  grammar_text: c => !!c.passage,
+  reading_short: c => !!c.passage,
+  reading_medium: c => !!c.passage,
+  reading_long: c => !!c.passage,
+  reading_integrated: c => !!c.passage && !!c.passageB,
+  reading_thematic: c => !!c.passage,
+  reading_info: c => !!c.table,
+  listening_task: c => !!c.script,
+  listening_point: c => !!c.script,
+  listening_summary: c => !!c.script,
+  listening_response: c => !!c.script && c.script.length <= 2,
+  listening_integrated: c => !!c.script,
+};
+
+export const cleanText = (value: unknown): string => (typeof value === "string" ? toPlainText(value).trim() : "");
+
+export const VOICES: Voice[] = ["male", "female", "narrator"];
+
+// Unknown voices are inferred from the speaker's role
+export const cleanScript = (value: unknown): ScriptLine[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const lines = value.map((line: any) => {
+    const speaker = cleanText(line?.speaker);
+    const voice: Voice = VOICES.includes(line?.voice) ? line.voice : /女/.test(speaker) ? "female" : /男/.test(speaker) ? "male" : "narrator";
+    return { speaker, voice, text: cleanText(line?.text) };
+  }).filter(line => line.text);
+  return lines.length > 0 ? lines : undefined;
+};
+
+// Rows are padded or cut to the header width; a table without headers or rows is dropped
+export const cleanTable = (value: any): ContentTable | undefined => {
+  if (!value || !Array.isArray(value.headers) || !Array.isArray(value.rows)) return undefined;
+  const headers = value.headers.map(cleanText);
+  const rows: string[][] = value.rows
+    .filter(Array.isArray)
+    .map((row: unknown[]) => headers.map((_: string, i: number) => cleanText(row[i])));
+  if (headers.length === 0 || rows.length === 0) return undefined;
+  const caption = cleanText(value.caption);
+  return caption ? { caption, headers, rows } : { headers, rows };
+};
+
+// Repairs what can be repaired (whitespace, stray markup, numeric strings) and rejects the rest
+export const validateQuestion = (raw: any, mondaiId: MondaiId): ValidQuestion | null => {
+  if (!raw || typeof raw.stem !== "string" || !Array.isArray(raw.options)) return null;
+
+  const stem = cleanText(raw.stem);
+  if (!stem) return null;
+  const starSlot = raw.starSlot === undefined || raw.starSlot === null ? undefined : Number(raw.starSlot);
+  const content = buildContent({
+    passage: cleanText(raw.passage) || undefined,
+    passageB: cleanText(raw.passageB) || undefined,
+    table: cleanTable(raw.table),
+    script: cleanScript(raw.script),
+    stem,
+    target: cleanText(raw.target) || undefined,
+    starSlot: Number.isInteger(starSlot) ? starSlot : undefined,
+  });
+  const rule = CONTENT_RULES[mondaiId];
+  if (rule && !rule(content)) return null;
+
+  const optionCount = MONDAI_LIST.find(m => m.id === mondaiId)?.optionCount ?? OPTION_COUNT;
+  const options: string[] = raw.options.map(cleanText);
+  if (options.length !== optionCount || options.some(o => !o)) return null;
+  if (new Set(options).size !== optionCount) return null;
+
+  const correctAnswerIndex = Number(raw.correctAnswerIndex);
+  if (!Number.isInteger(correctAnswerIndex) || correctAnswerIndex < 0 || correctAnswerIndex >= optionCount) return null;
+
+  // The full order must be a permutation that agrees with the ★ answer
+  let correctOrder: number[] | undefined;
+  if (mondaiId === "grammar_order") {
+    if (!Array.isArray(raw.correctOrder)) return null;
+    correctOrder = raw.correctOrder.map(Number);
+    const isPermutation = correctOrder.length === OPTION_COUNT
+      && new Set(correctOrder).size === OPTION_COUNT
+      && correctOrder.every(i => Number.isInteger(i) && i >= 0 && i < OPTION_COUNT);
+    if (!isPermutation || correctOrder[content.starSlot ?? -1] !== correctAnswerIndex) return null;
+  }
+
+  // Vocabulary items test their underlined word when the model leaves testedItem out
+  const testedItem = cleanText(raw.testedItem) || (mondaiId.startsWith("vocab_") ? cleanText(raw.target) : "");
+
+  return {
+    question: contentToText(content),
+    content,
+    options,
+    correctAnswerIndex,
+    ...(correctOrder && { correctOrder }),
+    explanation: cleanText(raw.explanation),
+    ...(typeof raw.groupId === "string" && { groupId: raw.groupId }),
+    ...(testedItem && { testedItem }),
+  };
+};
@@ -1,51 +1,468 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useRef, useMemo } from "react";
 import { createRoot } from "react-dom/client";
-import { GoogleGenAI, Type, Schema } from "@google/genai";
+import {
+  MONDAI_LIST, VOICES,
+  buildContent, buildJsonFormatInstruction, buildQuestionPrompt, contentToText, isGroupedMondai,
+  parseQuestionPayload, SYSTEM_INSTRUCTION, targetKindFor, toPlainText, validateQuestion,
+} from "./generation";
+import type {
+  ContentTable, MondaiConfig, MondaiId, Question, QuestionContent, RawQuestion,
+  ScriptLine, StudyTarget, TargetKind, ValidQuestion, Voice,
+} from "./generation";
+import { DICTIONARY, lookupWord, toFurigana } from "./dictionary";
+import type { DictionaryEntry, DictionaryMatch } from "./dictionary";
 
 // --- Types ---
 
-type MondaiId = 
-  | "vocab_readings"    // P1
-  | "vocab_context"     // P2
-  | "vocab_paraphrase"  // P3
-  | "vocab_usage"       // P4
-  | "grammar_selection" // P5
-  | "grammar_order"     // P6
-  | "reading_short"     // P8 (New)
-  | "reading_medium"    // P9 (New)
-  | "review_mistakes";  // Review Mode
-
-interface MondaiConfig {
+// Sections covered by the 言語知識・読解 paper, in booklet order
+const MOCK_EXAM_SECTIONS: MondaiConfig["section"][] = ["Vocabulary", "Grammar", "Reading"];
+const MOCK_EXAM_MONDAI = MONDAI_LIST.filter(m => MOCK_EXAM_SECTIONS.includes(m.section));
+const MOCK_EXAM_TIME_LIMIT = 110 * 60; // Official 言語知識・読解 time in seconds
+
+const MOCK_EXAM_CONFIG: MondaiConfig = {
+  id: "mock_exam",
+  section: "Mock",
+  label: "模擬試験",
+  subLabel: "Mock Exam",
+  count: MOCK_EXAM_MONDAI.reduce((sum, m) => sum + m.count, 0),
+  description: "言語知識（文字・語彙・文法）・読解 in official order, 110 minutes."
+};
+
+interface MondaiResult {
+  id: MondaiId;
+  label: string;
+  correct: number;
+  total: number;
+}
+
+// --- Session History ---
+
+interface AnswerRecord {
+  questionId: string;
+  mondaiId?: MondaiId;
+  categoryLabel?: string;
+  testedItem?: string;
+  answered: boolean;
+  isCorrect: boolean;
+  seconds: number; // Time spent on this question
+}
+
+interface SessionRecord {
+  id: string;
+  mondaiId: MondaiId; // The session's config: a Mondai, the mock exam or review
+  label: string;
+  finishedAt: number;
+  totalSeconds: number;
+  answers: AnswerRecord[];
+}
+
+interface MondaiStats {
   id: MondaiId;
-  section: "Vocabulary" | "Grammar" | "Reading" | "Review";
   label: string;
-  subLabel: string;
-  count: number;
-  description: string;
+  answered: number;
+  correct: number;
+  avgSeconds: number;
+  trend: number[]; // Accuracy (0-1) per session, oldest first
 }
 
-const MONDAI_LIST: MondaiConfig[] = [
-  { id: "vocab_readings", section: "Vocabulary", label: "問題1 漢字読み", subLabel: "Kanji Readings", count: 6, description: "Select the correct reading for the underlined word." },
-  { id: "vocab_context", section: "Vocabulary", label: "問題2 文脈規定", subLabel: "Context", count: 7, description: "Fill in the blank with the most appropriate word." },
-  { id: "vocab_paraphrase", section: "Vocabulary", label: "問題3 言い換え", subLabel: "Paraphrases", count: 6, description: "Select the word closest in meaning." },
-  { id: "vocab_usage", section: "Vocabulary", label: "問題4 用法", subLabel: "Usage", count: 6, description: "Select the sentence that uses the word correctly." },
-  { id: "grammar_selection", section: "Grammar", label: "問題5 文法形式", subLabel: "Grammar", count: 10, description: "Select the correct grammar form." },
-  { id: "grammar_order", section: "Grammar", label: "問題6 並べ替え", subLabel: "Composition", count: 5, description: "Choose the item that fits in the ★ position." },
-  { id: "reading_short", section: "Reading", label: "問題8 短文", subLabel: "Short Passage", count: 4, description: "Read a short text (~200 chars) and answer the question." },
-  { id: "reading_medium", section: "Reading", label: "問題9 中文", subLabel: "Medium Passage", count: 3, description: "Read a medium text (~500 chars) and answer the question." },
+// --- Scoring ---
+
+// Official scoring sections (得点区分) and the Mondai sections that feed them
+type ScoreSectionId = "language" | "reading" | "listening";
+
+const SCORE_SECTIONS: { id: ScoreSectionId; label: string; sections: MondaiConfig["section"][] }[] = [
+  { id: "language", label: "言語知識（文字・語彙・文法）", sections: ["Vocabulary", "Grammar"] },
+  { id: "reading", label: "読解", sections: ["Reading"] },
+  { id: "listening", label: "聴解", sections: ["Listening"] },
 ];
 
-interface Question {
-  id: string; // Unique ID for deduplication
-  question: string;
-  options: string[];
-  correctAnswerIndex: number;
-  explanation: string;
-  categoryLabel?: string; // To track where the mistake came from
-  timestamp?: number;
+const SECTION_MAX_SCORE = 60;
+const SECTION_PASS_MARK = 19; // 基準点
+const TOTAL_PASS_MARK = 100;  // 合格点 (out of 180)
+
+interface SectionScore {
+  id: ScoreSectionId;
+  label: string;
+  score: number | null; // null when no Mondai of this section was attempted
+}
+
+interface PassJudgement {
+  verdict: "pass" | "fail" | "incomplete";
+  total: number;
+  message: string;
+}
+
+// --- Spaced Repetition ---
+
+// SM-2 schedule attached to every mistake-bank entry
+interface ReviewSchedule {
+  ease: number;     // Ease factor, never below SRS_MIN_EASE
+  interval: number; // Days until the next review
+  due: number;      // Timestamp (ms) of the next review
+  reps: number;     // Consecutive correct reviews since the last lapse
+  lapses: number;   // Times the item was answered wrong
+}
+
+interface ReviewCard extends Question {
+  srs: ReviewSchedule;
+  notes?: TutorNote[]; // Tutor answers the learner chose to keep with this card
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SRS_INITIAL_EASE = 2.5;
+const SRS_MIN_EASE = 1.3;
+const SRS_GRADUATION_DAYS = 60; // Cards whose interval reaches this leave the bank as mastered
+
+// --- Tutor ---
+
+interface TutorMessage {
+  role: "user" | "model";
+  text: string;
+}
+
+interface TutorNote {
+  prompt: string; // What the learner asked
+  answer: string;
+  savedAt: number;
+}
+
+// --- Flagged Questions ---
+
+type FlagReason = "wrong_answer" | "multiple_correct" | "bad_explanation" | "unnatural" | "other";
+
+const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  wrong_answer: "正解が間違っている",
+  multiple_correct: "正解が複数ある",
+  bad_explanation: "解説が正解と合わない",
+  unnatural: "問題文・選択肢が不自然",
+  other: "その他",
+};
+
+// pending: waiting for the second-pass check. restored: the item was fine after all.
+// fixed: the check corrected it. discarded: unusable, and never served again.
+type FlagStatus = "pending" | "restored" | "fixed" | "discarded";
+
+interface FlaggedQuestion {
+  id: string; // Fingerprint hash of the reported question
+  question: Question;
+  reason: FlagReason;
+  comment?: string;
+  flaggedAt: number;
+  status: FlagStatus;
+  verdictNote?: string; // The checker's reasoning
+  fixed?: Question; // Corrected item when status is "fixed"
+  card?: ReviewCard; // Mistake-bank card the item was taken from, schedule and notes included
+  wasMastered?: boolean; // The item was on the mastered list when reported
+  returned?: boolean; // Put back where it came from once the check cleared it
+}
+
+// What the question server's checker answers
+interface VerificationResult {
+  verdict: "valid" | "fixed" | "invalid";
+  note: string;
+  correctAnswerIndex?: number;
+  options?: string[];
+  explanation?: string;
+}
+
+// --- Question Providers ---
+
+type ProviderId = "gemini" | "openai_compatible" | "question_pack";
+
+interface QuestionPackItem extends RawQuestion {
+  mondaiId: MondaiId;
+}
+
+interface QuestionPack {
+  name: string;
+  questions: QuestionPackItem[];
+}
+
+interface ProviderSettings {
+  provider: ProviderId;
+  localEndpoint: string; // OpenAI-compatible base URL, e.g. http://localhost:8080/v1
+  localModel: string;
+  localApiKey: string;
+  questionPack: QuestionPack | null;
+  speechBackend: SpeechBackendId;
+  ttsEndpoint: string; // OpenAI-compatible base URL serving /audio/speech
+  ttsModel: string;
+  ttsApiKey: string;
+  ttsVoices: Record<Voice, string>;
+  poolSize: number; // Unseen questions kept per Mondai for offline study; 0 turns the pool off
+}
+
+interface QuestionProvider {
+  id: ProviderId;
+  generate: (config: MondaiConfig) => Promise<RawQuestion[]>;
+  // Optional: yields each question (or each passage set) as soon as it is complete
+  stream?: (config: MondaiConfig) => AsyncIterable<RawQuestion[]>;
+}
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: "Gemini (question server)",
+  openai_compatible: "Local LLM (OpenAI-compatible)",
+  question_pack: "Question Pack (offline)",
+};
+
+const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: "gemini",
+  localEndpoint: "http://localhost:8080/v1",
+  localModel: "local-model",
+  localApiKey: "",
+  questionPack: null,
+  speechBackend: "browser",
+  ttsEndpoint: "http://localhost:8880/v1",
+  ttsModel: "tts-1",
+  ttsApiKey: "",
+  ttsVoices: { male: "onyx", female: "nova", narrator: "alloy" },
+  poolSize: 0, // Opt-in: filling the pool spends API quota in the background
+};
+
+// --- Speech ---
+
+type SpeechBackendId = "browser" | "openai_tts";
+
+interface SpeechBackend {
+  id: SpeechBackendId;
+  speak: (lines: ScriptLine[]) => Promise<void>; // Resolves when playback ends or is stopped
+  stop: () => void;
+}
+
+const SPEECH_BACKEND_LABELS: Record<SpeechBackendId, string> = {
+  browser: "Browser (SpeechSynthesis)",
+  openai_tts: "TTS Server (OpenAI-compatible)",
+};
+
+// --- Study Targets ---
+
+// User-defined vocabulary, e.g. kanji the learner keeps missing
+interface WordList {
+  id: string;
+  name: string;
+  items: StudyTarget[];
+}
+
+// Saved from the dictionary popup; the notebook is also offered as a word list for targeted practice
+interface NotebookWord extends StudyTarget {
+  example?: string; // Sentence the word was looked up in
+  savedAt: number;
 }
 
-type AppState = "menu" | "loading" | "quiz" | "results" | "error";
+interface TargetProgress {
+  item: string; // Spelling from the latest answer
+  answered: number;
+  correct: number;
+  streak: number; // Consecutive correct answers up to the latest one
+}
+
+type CoverageStatus = "new" | "practiced" | "mastered";
+
+const COVERAGE_MASTERY_STREAK = 3; // Correct answers in a row before an item counts as mastered
+const catalog = (kind: TargetKind, entries: [string, string, string?][]): StudyTarget[] =>
+  entries.map(([text, meaning, reading]) => ({ id: `${kind}:${text}`, kind, text, meaning, ...(reading && { reading }) }));
+
+const N1_GRAMMAR_POINTS = catalog("grammar", [
+  ["〜をものともせず", "in defiance of"],
+  ["〜を皮切りに", "starting with"],
+  ["〜をよそに", "ignoring, despite"],
+  ["〜をもって", "by means of; as of"],
+  ["〜をおいて", "other than"],
+  ["〜を限りに", "as the last time"],
+  ["〜を禁じ得ない", "cannot help feeling"],
+  ["〜を余儀なくされる", "be forced to"],
+  ["〜に難くない", "it is easy to"],
+  ["〜に即して", "in accordance with"],
+  ["〜にたえない", "not worth; deeply"],
+  ["〜にひきかえ", "in contrast to"],
+  ["〜に至っては", "as for, even"],
+  ["〜にあって", "in (a situation)"],
+  ["〜にもまして", "more than"],
+  ["〜にとどまらず", "not limited to"],
+  ["〜ならでは", "unique to"],
+  ["〜なしには", "without"],
+  ["〜ともなると", "when it comes to"],
+  ["〜とあって", "because (special circumstance)"],
+  ["〜とあれば", "if it is for"],
+  ["〜といえども", "even though"],
+  ["〜ときたら", "when it comes to (critical)"],
+  ["〜と相まって", "combined with"],
+  ["〜とばかりに", "as if to say"],
+  ["〜たりとも", "not even one"],
+  ["〜たるもの", "as one who is"],
+  ["〜ずにはおかない", "will inevitably"],
+  ["〜ずにはすまない", "must, cannot avoid"],
+  ["〜てやまない", "never cease to"],
+  ["〜てからというもの", "ever since"],
+  ["〜ではあるまいし", "it's not as if"],
+  ["〜であれ", "whether, even if"],
+  ["〜べからず", "must not"],
+  ["〜べく", "in order to"],
+  ["〜まじき", "should not (unbecoming)"],
+  ["〜までもない", "needless to"],
+  ["〜まみれ", "covered in"],
+  ["〜めく", "show signs of"],
+  ["〜ゆえに", "because of"],
+  ["〜かたわら", "while also"],
+  ["〜がてら", "while, on the way"],
+  ["〜が早いか", "as soon as"],
+  ["〜や否や", "the moment that"],
+  ["〜そばから", "no sooner than"],
+  ["〜なり", "as soon as"],
+  ["〜が最後", "once ... then"],
+  ["〜きらいがある", "have a tendency to"],
+  ["〜極まりない", "extremely"],
+  ["〜の至り", "the height of"],
+  ["〜の極み", "the peak of"],
+  ["〜んがため", "in order to"],
+  ["〜んばかり", "as if about to"],
+  ["〜もさることながら", "not only ... but also"],
+  ["〜いかんによらず", "regardless of"],
+  ["〜はおろか", "let alone"],
+  ["〜だに", "even (just)"],
+  ["〜ようにも〜ない", "cannot even if one tries"],
+]);
+
+const N1_VOCABULARY = catalog("vocab", [
+  ["懸念", "concern", "けねん"],
+  ["顕著", "remarkable", "けんちょ"],
+  ["把握", "grasp", "はあく"],
+  ["妥協", "compromise", "だきょう"],
+  ["発足", "inauguration", "ほっそく"],
+  ["漠然", "vague", "ばくぜん"],
+  ["逸脱", "deviation", "いつだつ"],
+  ["斡旋", "mediation", "あっせん"],
+  ["措置", "measure", "そち"],
+  ["該当", "applicable", "がいとう"],
+  ["踏襲", "following precedent", "とうしゅう"],
+  ["是正", "correction", "ぜせい"],
+  ["緩和", "relaxation", "かんわ"],
+  ["拮抗", "rivalry", "きっこう"],
+  ["頻繁", "frequent", "ひんぱん"],
+  ["貢献", "contribution", "こうけん"],
+  ["施行", "enforcement", "しこう"],
+  ["脆弱", "fragile", "ぜいじゃく"],
+  ["煩雑", "complicated", "はんざつ"],
+  ["抜粋", "excerpt", "ばっすい"],
+  ["網羅", "comprehensive coverage", "もうら"],
+  ["奨励", "encouragement", "しょうれい"],
+  ["円滑", "smooth", "えんかつ"],
+  ["弊害", "harmful effect", "へいがい"],
+  ["兆し", "sign", "きざし"],
+  ["手際", "skill in handling", "てぎわ"],
+  ["目途", "prospect", "めど"],
+  ["憤り", "indignation", "いきどおり"],
+  ["腕前", "ability", "うでまえ"],
+  ["案の定", "as expected", "あんのじょう"],
+  ["損なう", "to harm", "そこなう"],
+  ["賄う", "to cover (costs)", "まかなう"],
+  ["培う", "to cultivate", "つちかう"],
+  ["覆す", "to overturn", "くつがえす"],
+  ["携わる", "to be engaged in", "たずさわる"],
+  ["滞る", "to stagnate", "とどこおる"],
+  ["募る", "to recruit; to intensify", "つのる"],
+  ["阻む", "to obstruct", "はばむ"],
+  ["紛らわしい", "confusing", "まぎらわしい"],
+  ["潔い", "graceful, manly", "いさぎよい"],
+  ["著しい", "remarkable", "いちじるしい"],
+  ["目覚ましい", "striking", "めざましい"],
+  ["和やか", "harmonious", "なごやか"],
+  ["厳か", "solemn", "おごそか"],
+  ["鮮やか", "vivid", "あざやか"],
+  ["一概に", "unconditionally", "いちがいに"],
+  ["頑なに", "stubbornly", "かたくなに"],
+  ["予め", "beforehand", "あらかじめ"],
+  ["ひたすら", "earnestly"],
+  ["ことごとく", "entirely"],
+]);
+
+// --- Backup ---
+
+const BACKUP_FORMAT = "jlpt-n1-backup";
+const BACKUP_VERSION = 2; // 2: mastered items are question hashes
+
+// API keys are never written to a backup file
+type BackupSettings = Omit<ProviderSettings, "localApiKey" | "ttsApiKey">;
+
+interface AppBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  mistakes: ReviewCard[];
+  mastered: string[]; // Question hashes
+  history: SessionRecord[];
+  wordLists?: WordList[];
+  flagged?: FlaggedQuestion[];
+  notebook?: NotebookWord[];
+  settings: BackupSettings;
+}
+
+type ImportMode = "merge" | "replace";
+
+type AnkiDelimiter = "," | "\t";
+
+type AppState = "menu" | "loading" | "quiz" | "exam" | "results" | "error" | "settings" | "dashboard" | "targets" | "flagged" | "notebook" | "paper";
+
+// --- Active Session ---
+
+// Where a Quiz stands; saved on every change so a reload opens the same question
+interface QuizProgress {
+  currentIndex: number;
+  answers: (number | null)[];
+  times: number[];
+  score: number;
+  seconds: number;
+  flagged: number[];
+  isChecked: boolean;
+  selectedOption: number | null;
+  slots: (number | null)[];
+}
+
+interface ExamProgress {
+  currentIndex: number;
+  answers: (number | null)[];
+  times: number[];
+  remaining: number;
+}
+
+type SessionProgress = QuizProgress | ExamProgress;
+
+interface ActiveSession {
+  id: number; // Start time; keeps progress from being applied to another session
+  mode: "quiz" | "exam";
+  config: MondaiConfig;
+  questions: Question[];
+  progress?: SessionProgress;
+}
+
+interface LastResult {
+  score: number;
+  total: number;
+  timeSpent: number;
+  breakdown?: MondaiResult[];
+  config: MondaiConfig | null;
+}
+
+// --- Paper Exams ---
+
+// A set laid out for printing; kept so the answers marked on paper can be entered and scored later
+interface PaperExam {
+  id: string;
+  title: string;
+  createdAt: number;
+  questions: Question[]; // In booklet order
+  marks: (number | null)[]; // Option marked on the answer sheet, entered after the test
+  scoredAt?: number; // Set once the marks have gone into the mistake bank
+}
+
+type PaperSource = { kind: "mondai", ids: MondaiId[] } | { kind: "mock" } | { kind: "mistakes" };
+
+// One 問題 of the booklet; items keep their index into the whole set
+interface PaperSection {
+  number: number;
+  mondai?: MondaiConfig;
+  items: { question: Question, index: number, startsGroup: boolean }[];
+}
 
 // --- Helper Functions ---
 
@@ -65,12 +482,13 @@ const shuffleOptions = (questions: any[]): Question[] => {
 
     // Extract shuffled options and find new correct index
     const shuffledOptions = optionsWithIndices.map((o: any) => o.opt);
-    const newCorrectIndex = optionsWithIndices.findIndex((o: any) => o.originalIndex === q.correctAnswerIndex);
+    const newIndexOf = (original: number) => optionsWithIndices.findIndex((o: any) => o.originalIndex === original);
 
     return {
       ...q,
       options: shuffledOptions,
-      correctAnswerIndex: newCorrectIndex,
+      correctAnswerIndex: newIndexOf(q.correctAnswerIndex),
+      ...(q.correctOrder && { correctOrder: q.correctOrder.map(newIndexOf) }),
     };
   });
 };
@@ -81,314 +499,2718 @@ const formatTime = (seconds: number) => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
-// --- API Logic ---
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const findMondai = (q: Question) =>
+  MONDAI_LIST.find(m => m.id === q.mondaiId) ?? MONDAI_LIST.find(m => m.label === q.categoryLabel);
 
-const generateQuestions = async (config: MondaiConfig): Promise<Question[]> => {
-  let specificPrompt = "";
-  
-  // Prompts updated to explicitly request HTML formatting for underlines and blanks to ensure visibility
-  switch (config.id) {
-    case "vocab_readings":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Kanji Reading" (Problem 1) questions. 
-      Format: A sentence with a complex N1 Kanji word underlined. 
-      CRITICAL VISUAL REQUIREMENT: Wrap the target kanji word in <span class="border-b-2 border-stone-800 font-bold px-1">word</span> so the underline is clearly visible. Do NOT use simple <u> tags.
-      Options: 4 Hiragana reading choices. Distractors should be very similar readings.`;
-      break;
-    case "vocab_context":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Context" (Problem 2) questions. 
-      Format: A sentence with a blank represented exactly by "(　　　)".
-      Options: 4 N1 vocabulary words. Only one fits the context.`;
-      break;
-    case "vocab_paraphrase":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Paraphrase" (Problem 3) questions. 
-      Format: A sentence with an N1 word underlined. 
-      CRITICAL VISUAL REQUIREMENT: Wrap the target word in <span class="border-b-2 border-stone-800 font-bold px-1">word</span>.
-      Options: 4 words or phrases. Choose the one with the closest meaning to the underlined part.`;
-      break;
-    case "vocab_usage":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Usage" (Problem 4) questions. 
-      Format: The question text is just the Target Word (e.g., "【手際】"). 
-      Options: 4 full sentences using the word. Only one sentence uses the word naturally and correctly.`;
-      break;
-    case "grammar_selection":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Grammar Selection" (Problem 5) questions. 
-      Format: A sentence with a missing grammar part.
-      CRITICAL VISUAL REQUIREMENT: Represent the blank exactly as "(　　　)". Do not use underscores.
-      Options: 4 N1 grammar points.`;
-      break;
-    case "grammar_order":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Sentence Composition" (Problem 6) questions. 
-      Format: A sentence with 4 blanks, one marked with a star (★). 
-      CRITICAL VISUAL REQUIREMENT: Use exactly this format for the blanks in the sentence: "<span class='border-b border-stone-400 inline-block w-8 mx-1'></span> <span class='border-b border-stone-400 inline-block w-8 mx-1'></span> <span class='border-b border-stone-800 font-bold inline-block w-8 mx-1 text-center'>★</span> <span class='border-b border-stone-400 inline-block w-8 mx-1'></span>".
-      Example: "私 <span class='border-b border-stone-400 inline-block w-8 mx-1'></span> <span class='border-b border-stone-400 inline-block w-8 mx-1'></span> <span class='border-b border-stone-800 font-bold inline-block w-8 mx-1 text-center'>★</span> <span class='border-b border-stone-400 inline-block w-8 mx-1'></span> です。"
-      Options: 4 words or fragments to fill the blanks. 
-      Correct Answer: The index of the option that goes in the ★ position. 
-      Explanation: Explain the correct full sentence order.`;
-      break;
-    case "reading_short":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Short Passage Reading" (Problem 8) questions.
-      Format: 
-      1. Create an N1-level short reading passage (about 200 Japanese characters) on topics like philosophy, society, or essays.
-      2. Create one question based on the passage (e.g., "What is the author's main point?" or "Why did X happen?").
-      3. In the JSON 'question' field, combine the passage and the question using HTML. Wrap the passage in <div class='bg-stone-100 p-4 rounded-lg mb-4 text-sm leading-loose font-serif text-stone-700'>...passage...</div> and put the question text in <p class='font-bold text-lg'>...question...</p>.`;
-      break;
-    case "reading_medium":
-      specificPrompt = `Generate ${config.count} JLPT N1 "Medium Passage Reading" (Problem 9) questions.
-      Format:
-      1. Create an N1-level medium reading passage (about 400-500 Japanese characters). Topic: Editorial, critique, or abstract essay.
-      2. Create one deeper comprehension question (e.g., content relationship, author's stance).
-      3. In the JSON 'question' field, combine the passage and the question using HTML. Wrap the passage in <div class='bg-stone-100 p-4 rounded-lg mb-4 text-xs md:text-sm leading-loose font-serif text-stone-700'>...passage...</div> and put the question text in <p class='font-bold text-lg'>...question...</p>.`;
-      break;
-    default:
-      throw new Error("Invalid config for API generation");
+// 53-bit string hash (cyrb53); keys mastered items without keeping their full text
+const questionHash = (text: string): string => {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < normalized.length; i++) {
+    const ch = normalized.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
   }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
 
-  const prompt = `
-    ${specificPrompt}
-    
-    IMPORTANT: 
-    1. Strictly follow the JLPT N1 difficulty level. 
-    2. PRIORITIZE questions that have appeared in actual past exams (2010-2024). 
-    3. If exact past questions are restricted, generate questions that are indistinguishable from real exam questions in style, tone, and difficulty.
-    4. Provide a detailed explanation in Japanese.
-  `;
-
-  // Wrapped schema in an object "response" to avoid top-level array issues
-  const schema: Schema = {
-    type: Type.OBJECT,
-    properties: {
-      questions: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            question: { type: Type.STRING, description: "The question text (can include HTML)." },
-            options: { 
-              type: Type.ARRAY, 
-              items: { type: Type.STRING }
-            },
-            correctAnswerIndex: { type: Type.INTEGER, description: "0-3 index." },
-            explanation: { type: Type.STRING },
-          },
-          required: ["question", "options", "correctAnswerIndex", "explanation"],
-        }
-      }
-    }
-  };
+// Position of a question among the run of questions sharing its passage
+const groupPosition = (questions: Question[], index: number) => {
+  const groupId = questions[index]?.groupId;
+  if (!groupId) return { index: 0, size: 1 };
+  const members = questions.map((q, i) => (q.groupId === groupId ? i : -1)).filter(i => i !== -1);
+  return { index: members.indexOf(index), size: members.length };
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: {
-        systemInstruction: "You are a professional JLPT Exam creator. Output valid JSON.",
-        responseMimeType: "application/json",
-        responseSchema: schema,
-      },
-    });
+const buildAnswerLog = (questions: Question[], answers: (number | null)[], times: number[]): AnswerRecord[] =>
+  questions.map((q, idx) => ({
+    questionId: q.id,
+    mondaiId: q.mondaiId ?? findMondai(q)?.id,
+    categoryLabel: q.categoryLabel,
+    ...(q.testedItem && { testedItem: q.testedItem }),
+    answered: answers[idx] !== null,
+    isCorrect: answers[idx] === q.correctAnswerIndex,
+    seconds: Math.round(times[idx] ?? 0),
+  }));
 
-    if (response.text) {
-      const parsed = JSON.parse(response.text);
-      // Map to add IDs and Category
-      const rawQuestions = parsed.questions || parsed; // Handle potential schema variance
-      if (Array.isArray(rawQuestions)) {
-        // Shuffle options here to ensure randomness and avoid model bias
-        const randomizedQuestions = shuffleOptions(rawQuestions);
-        
-        return randomizedQuestions.map((q: any) => ({
-          ...q,
-          id: `${config.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          categoryLabel: config.label,
-          timestamp: Date.now()
-        }));
-      }
+// Groups answers by source Mondai, keeping the order in which Mondai first appear
+const buildBreakdown = (questions: Question[], answers: (number | null)[]): MondaiResult[] => {
+  const results: MondaiResult[] = [];
+  questions.forEach((q, idx) => {
+    // Older mistake-bank entries carry only the category label
+    const id = q.mondaiId ?? findMondai(q)?.id ?? "review_mistakes";
+    let entry = results.find(r => r.id === id);
+    if (!entry) {
+      entry = { id, label: q.categoryLabel ?? id, correct: 0, total: 0 };
+      results.push(entry);
     }
-    throw new Error("No data returned");
-  } catch (error) {
-    console.error("Error generating questions:", error);
-    throw error;
-  }
+    entry.total += 1;
+    if (answers[idx] === q.correctAnswerIndex) entry.correct += 1;
+  });
+  return results;
 };
 
-// --- Components ---
+// Scales weighted raw points in each section to 0-60, the way the real exam reports them
+const estimateScaledScores = (breakdown: MondaiResult[]): SectionScore[] =>
+  SCORE_SECTIONS.map(section => {
+    let earned = 0;
+    let possible = 0;
+    breakdown.forEach(r => {
+      const config = MONDAI_LIST.find(m => m.id === r.id);
+      if (!config || !section.sections.includes(config.section)) return;
+      const points = config.points ?? 1;
+      earned += r.correct * points;
+      possible += r.total * points;
+    });
+    return {
+      id: section.id,
+      label: section.label,
+      score: possible > 0 ? Math.round((earned / possible) * SECTION_MAX_SCORE) : null,
+    };
+  });
 
-const Menu = ({ 
-  onSelect, 
-  mistakeCount, 
-  onReviewMistakes 
-}: { 
-  onSelect: (c: MondaiConfig) => void, 
-  mistakeCount: number,
-  onReviewMistakes: () => void
-}) => {
-  const vocabItems = MONDAI_LIST.filter(m => m.section === "Vocabulary");
-  const grammarItems = MONDAI_LIST.filter(m => m.section === "Grammar");
-  const readingItems = MONDAI_LIST.filter(m => m.section === "Reading");
+// Applies the N1 pass rule: every section at or above 基準点 and the total at or above 合格点
+const judgePass = (scores: SectionScore[]): PassJudgement => {
+  const assessed = scores.filter(s => s.score !== null);
+  const missing = scores.filter(s => s.score === null);
+  const total = assessed.reduce((sum, s) => sum + (s.score ?? 0), 0);
 
-  const Section = ({ title, items, color }: { title: string, items: MondaiConfig[], color: string }) => (
-    <div className="mb-8">
-      <h2 className={`text-xl font-bold mb-4 flex items-center ${color}`}>
-        <span className="w-2 h-6 rounded mr-2 bg-current"></span>
-        {title}
-      </h2>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {items.map((item) => (
-          <button 
-            key={item.id}
-            onClick={() => onSelect(item)}
-            className="group relative flex flex-col items-start p-5 bg-white border border-stone-200 hover:border-stone-400 rounded-xl transition-all duration-200 shadow-sm hover:shadow-md text-left"
-          >
-            <div className="flex justify-between w-full mb-1">
-              <span className="font-bold text-stone-800 text-lg group-hover:text-indigo-700">{item.label}</span>
-              <span className="text-xs font-mono bg-stone-100 px-2 py-1 rounded text-stone-500 group-hover:bg-indigo-50 group-hover:text-indigo-600">
-                {item.count}問
-              </span>
-            </div>
-            <span className="text-sm text-stone-500 font-medium">{item.subLabel}</span>
-            <span className="text-xs text-stone-400 mt-2 line-clamp-1">{item.description}</span>
-          </button>
-        ))}
-      </div>
-    </div>
-  );
+  const belowMark = assessed.filter(s => (s.score ?? 0) < SECTION_PASS_MARK);
+  if (belowMark.length > 0) {
+    return {
+      verdict: "fail",
+      total,
+      message: `${belowMark.map(s => s.label).join("・")}が基準点（${SECTION_PASS_MARK}点）に届いていません。`,
+    };
+  }
 
-  return (
-    <div className="min-h-screen bg-stone-50 p-6 font-sans">
-      <div className="max-w-4xl mx-auto">
-        <div className="bg-indigo-900 text-white p-8 rounded-2xl shadow-lg mb-8 text-center relative overflow-hidden">
-          <div className="relative z-10">
-            <h1 className="text-3xl font-bold mb-2">JLPT N1 直前対策</h1>
-            <p className="text-indigo-200">Official Exam Structure Practice</p>
-          </div>
-          <div className="absolute top-0 right-0 p-4 opacity-10">
-            <svg className="w-32 h-32 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2L2 7l10 5 10-5-10-5zm0 9l2.5-1.25L12 8.5l-2.5 1.25L12 11zm0 2.5l-5-2.5-5 2.5L12 22l10-8.5-5-2.5-5 2.5z"/></svg>
-          </div>
-        </div>
+  if (missing.length === 0) {
+    return total >= TOTAL_PASS_MARK
+      ? { verdict: "pass", total, message: "合格ラインを超えています！" }
+      : { verdict: "fail", total, message: `総合得点が合格点（${TOTAL_PASS_MARK}点）に届いていません。` };
+  }
 
-        {/* Mistake Bank Card */}
-        <div className="mb-8">
-           <h2 className="text-xl font-bold mb-4 flex items-center text-rose-700">
-            <span className="w-2 h-6 rounded mr-2 bg-current"></span>
-            弱点克服 (Mistake Bank)
-          </h2>
-          <button 
-            onClick={onReviewMistakes}
-            disabled={mistakeCount === 0}
-            className={`w-full flex items-center justify-between p-6 rounded-xl border-2 transition-all duration-200 shadow-sm ${
-              mistakeCount > 0 
-                ? 'bg-white border-rose-200 hover:border-rose-400 hover:shadow-md cursor-pointer' 
-                : 'bg-stone-100 border-stone-200 opacity-70 cursor-not-allowed'
-            }`}
-          >
-            <div className="flex items-center">
-              <div className={`w-12 h-12 rounded-full flex items-center justify-center mr-4 ${mistakeCount > 0 ? 'bg-rose-100 text-rose-600' : 'bg-stone-200 text-stone-400'}`}>
-                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-              </div>
-              <div className="text-left">
-                <span className={`block font-bold text-lg ${mistakeCount > 0 ? 'text-rose-700' : 'text-stone-500'}`}>
-                  間違えた問題を復習する
-                </span>
-                <span className="text-sm text-stone-500">Review your incorrect answers</span>
-              </div>
-            </div>
-            <div className="flex items-center">
-              <span className={`text-2xl font-bold mr-2 ${mistakeCount > 0 ? 'text-rose-600' : 'text-stone-400'}`}>
-                {mistakeCount}
-              </span>
-              <span className="text-stone-400 text-sm">問</span>
-            </div>
-          </button>
-        </div>
+  // Sections not attempted this session: how much would they still need to contribute?
+  const needed = Math.max(SECTION_PASS_MARK * missing.length, TOTAL_PASS_MARK - total);
+  const missingLabels = missing.map(s => s.label).join("・");
+  if (needed > SECTION_MAX_SCORE * missing.length) {
+    return { verdict: "fail", total, message: `${missingLabels}で満点を取っても合格点に届きません。` };
+  }
+  return { verdict: "incomplete", total, message: `${missingLabels}で合計${needed}点以上取れば合格ラインです。` };
+};
 
-        <Section title="言語知識 (文字・語彙)" items={vocabItems} color="text-indigo-700" />
-        <Section title="言語知識 (文法)" items={grammarItems} color="text-emerald-700" />
-        <Section title="読解 (Reading)" items={readingItems} color="text-amber-700" />
+// --- Question Content ---
 
-        <div className="text-center text-xs text-stone-400 mt-8">
-          Generated by Gemini 2.5 Flash | Targets N1 Level (2010-2024 Criteria)
-        </div>
-      </div>
-    </div>
-  );
+// Questions stored before the structured model carried Tailwind HTML in `question`
+const legacyHtmlToContent = (html: string): QuestionContent => {
+  const body = new DOMParser().parseFromString(`<body>${html}</body>`, "text/html").body;
+  const passageEl = body.querySelector("div");
+  const passage = passageEl?.textContent?.trim() || undefined;
+  passageEl?.remove();
+
+  let target: string | undefined;
+  body.querySelectorAll("span").forEach(span => {
+    const text = span.textContent?.trim() ?? "";
+    if (text === "★" || !text) {
+      span.replaceWith(text === "★" ? "★" : "＿＿");
+    } else {
+      target = text;
+      span.replaceWith(text);
+    }
+  });
+  return buildContent({ passage, stem: (body.textContent ?? "").trim(), target });
 };
 
-const Loading = () => (
-  <div className="flex flex-col items-center justify-center min-h-screen bg-stone-50 text-stone-600">
-    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mb-4"></div>
-    <p className="animate-pulse font-medium">過去問データベースから抽出中...</p>
-    <p className="text-xs text-stone-400 mt-2">Accessing exam patterns & filtering duplicates...</p>
-  </div>
-);
+const isLegacyText = (text: string) => /<[a-z][^>]*>/i.test(text);
 
-const ErrorView = ({ onRetry }: { onRetry: () => void }) => (
-  <div className="flex flex-col items-center justify-center min-h-screen bg-stone-50 p-6">
-    <div className="bg-red-50 text-red-800 p-8 rounded-xl max-w-sm text-center border border-red-200 shadow-sm">
-      <h3 className="font-bold text-lg mb-2">生成エラー</h3>
-      <p className="text-sm mb-6">問題の作成に失敗しました。もう一度お試しください。</p>
-      <button 
-        onClick={onRetry}
-        className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-bold"
-      >
-        再試行 (Retry)
-      </button>
-    </div>
-  </div>
-);
+const endOfToday = (now = Date.now()) => {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
 
-const Quiz = ({ 
-  questions, 
-  config,
-  onFinish,
-  onAnswerReport
-}: { 
-  questions: Question[], 
-  config: MondaiConfig,
-  onFinish: (score: number, total: number, timeSpent: number) => void,
-  onAnswerReport: (question: Question, isCorrect: boolean) => void
-}) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
-  const [isChecked, setIsChecked] = useState(false);
-  const [score, setScore] = useState(0);
-  const [seconds, setSeconds] = useState(0);
+const newSchedule = (now = Date.now()): ReviewSchedule => ({
+  ease: SRS_INITIAL_EASE,
+  interval: 0,
+  due: now,
+  reps: 0,
+  lapses: 1, // A card enters the bank because it was missed
+});
 
-  // Timer logic
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setSeconds(s => s + 1);
-    }, 1000);
-    return () => clearInterval(timer);
-  }, []);
+// SM-2 ease update for a response of quality 0-5; quality 4 leaves the ease unchanged
+const updateEase = (ease: number, quality: number) =>
+  Math.max(SRS_MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
 
-  const currentQ = questions[currentIndex];
-  // Handle case where questions might be empty due to aggressive filtering (edge case)
-  if (!currentQ) {
-      return <div className="p-8 text-center">No questions available. Please return to menu.</div>;
+// SM-2 update with binary grading: a correct answer counts as quality 4, a wrong one as quality 1
+const scheduleReview = (srs: ReviewSchedule, isCorrect: boolean, now = Date.now()): ReviewSchedule => {
+  if (!isCorrect) {
+    return {
+      ease: updateEase(srs.ease, 1),
+      interval: 1,
+      due: now + DAY_MS,
+      reps: 0,
+      lapses: srs.lapses + 1,
+    };
   }
+  const reps = srs.reps + 1;
+  const interval = reps === 1 ? 1 : reps === 2 ? 6 : Math.round(srs.interval * srs.ease);
+  return { ...srs, interval, due: now + interval * DAY_MS, reps };
+};
 
-  const isLastQuestion = currentIndex === questions.length - 1;
+const isDue = (card: ReviewCard, now = Date.now()) => card.srs.due <= endOfToday(now);
 
-  // Handle auto-scroll to explanation when checking
-  const bottomRef = useRef<HTMLDivElement>(null);
+// Most overdue relative to its interval first, then the most often missed
+const reviewPriority = (card: ReviewCard, now = Date.now()) =>
+  (now - card.srs.due) / (Math.max(card.srs.interval, 1) * DAY_MS) + card.srs.lapses * 0.1;
 
-  useEffect(() => {
-    if (isChecked) {
+// Cards from the same passage are pulled up next to the highest-priority one, so it is read once
+const getDueCards = (bank: ReviewCard[], now = Date.now()): ReviewCard[] => {
+  const sorted = bank.filter(c => isDue(c, now)).sort((a, b) => reviewPriority(b, now) - reviewPriority(a, now));
+  const ordered: ReviewCard[] = [];
+  sorted.forEach(card => {
+    if (ordered.includes(card)) return;
+    ordered.push(card, ...(card.groupId ? sorted.filter(c => c !== card && c.groupId === card.groupId) : []));
+  });
+  return ordered;
+};
+
+const nextReviewLabel = (srs: ReviewSchedule) =>
+  srs.interval >= SRS_GRADUATION_DAYS ? "習得済みに移動しました" : `次の復習: ${srs.interval}日後`;
+
+// Entries stored before scheduling existed become due immediately;
+// entries stored before the structured model get their HTML converted.
+const migrateMistakes = (stored: (Omit<Question, "content"> & { content?: QuestionContent, srs?: ReviewSchedule })[]): ReviewCard[] =>
+  stored.map(q => {
+    const content = q.content ?? legacyHtmlToContent(q.question);
+    return {
+      ...q,
+      content,
+      question: q.content ? q.question : contentToText(content),
+      srs: q.srs ?? newSchedule(q.timestamp ?? Date.now()),
+    };
+  });
+
+// Mastered items used to be stored as full question text; only their hash is kept now.
+// The text has no options or answer, so it gets the answer-less legacy fingerprint.
+const migrateMastered = (stored: string[]): string[] =>
+  stored.map(text => legacyFingerprintHash(isLegacyText(text) ? legacyHtmlToContent(text) : buildContent({ stem: text })));
+
+// --- Duplicate Detection ---
+
+// Particles are dropped from the fingerprint so a regenerated item with one swapped particle still matches.
+// Only a lone particle between kanji or katakana counts; kana inside words (です, ところ…) stays.
+const PARTICLE_PATTERN = /(?<=[\p{Script=Han}ァ-ヶー])[はがをにでともへのや](?=[\p{Script=Han}ァ-ヶー])/gu;
+const SCOPE_LENGTH = 40;
+
+// NFKC folds full/half-width forms; katakana is folded to hiragana; markup, spaces, punctuation and blank markers go
+const normalizeJapanese = (text: string): string =>
+  (isLegacyText(text) ? toPlainText(text) : text)
+    .normalize("NFKC")
+    .replace(/[ァ-ヶ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60))
+    .replace(/[\s\p{P}\p{S}＿★]/gu, "");
+
+// Keys an item on what it tests: the target word (or the stem without particles when there is none)
+// plus the correct answer. Items on a passage or script are scoped by its opening so shared
+// stems like 筆者の考えに合うものはどれか don't collide across passages.
+const questionFingerprint = (
+  q: Pick<Question, "content" | "options" | "correctAnswerIndex" | "correctOrder">,
+  mondaiId?: MondaiId
+): string => {
+  const { passage, script, stem, target } = q.content;
+  const answer = q.correctOrder ? q.correctOrder.map(i => q.options[i]).join("") : q.options[q.correctAnswerIndex];
+  const focus = target
+    ? stem.substr(target.start, target.length)
+    : stem.replace(PARTICLE_PATTERN, "");
+  const source = passage ?? script?.map(line => line.text).join("") ?? "";
+  return [
+    mondaiId ?? "",
+    normalizeJapanese(source).slice(0, SCOPE_LENGTH),
+    normalizeJapanese(focus),
+    normalizeJapanese(answer ?? ""),
+  ].join("|");
+};
+
+const fingerprintHash = (q: Question) => questionHash(questionFingerprint(q, q.mondaiId));
+
+// Key of a mastered item migrated from question text alone: no Mondai and no answer
+const legacyFingerprintHash = (content: QuestionContent) =>
+  questionHash(questionFingerprint({ content, options: [], correctAnswerIndex: 0 }));
+
+// The Mondai the app had while mastered items were stored as text; a migrated key only stands for these
+const LEGACY_MONDAI: MondaiId[] = [
+  "vocab_readings", "vocab_context", "vocab_paraphrase", "vocab_usage",
+  "grammar_selection", "grammar_order", "reading_short", "reading_medium",
+];
+
+// Whether a set of mastered or quarantined hashes holds this item under either key
+const isExcluded = (
+  q: Pick<Question, "content" | "options" | "correctAnswerIndex" | "correctOrder" | "mondaiId">,
+  excluded: Set<string>,
+  mondaiId = q.mondaiId
+) =>
+  excluded.has(questionHash(questionFingerprint(q, mondaiId))) ||
+  ((!mondaiId || LEGACY_MONDAI.includes(mondaiId)) && excluded.has(legacyFingerprintHash(q.content)));
+
+// --- Analytics ---
+
+const TREND_LENGTH = 10;
+const WEAK_MIN_ANSWERS = 5; // Below this a Mondai's accuracy is too noisy to rank
+
+// Local calendar day, so streaks follow the learner's midnight rather than UTC
+const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const computeMondaiStats = (history: SessionRecord[]): MondaiStats[] => {
+  const stats = new Map<MondaiId, MondaiStats & { totalSeconds: number }>();
+  [...history].sort((a, b) => a.finishedAt - b.finishedAt).forEach(session => {
+    const perSession = new Map<MondaiId, { correct: number; total: number }>();
+    session.answers.forEach(a => {
+      if (!a.mondaiId) return;
+      const config = MONDAI_LIST.find(m => m.id === a.mondaiId);
+      const entry = stats.get(a.mondaiId) ?? {
+        id: a.mondaiId, label: config?.label ?? a.categoryLabel ?? a.mondaiId, answered: 0, correct: 0, avgSeconds: 0, totalSeconds: 0, trend: [],
+      };
+      entry.answered += 1;
+      entry.correct += a.isCorrect ? 1 : 0;
+      entry.totalSeconds += a.seconds;
+      stats.set(a.mondaiId, entry);
+
+      const s = perSession.get(a.mondaiId) ?? { correct: 0, total: 0 };
+      s.total += 1;
+      s.correct += a.isCorrect ? 1 : 0;
+      perSession.set(a.mondaiId, s);
+    });
+    perSession.forEach((s, id) => stats.get(id)!.trend.push(s.correct / s.total));
+  });
+
+  // Listed in MONDAI_LIST order
+  return MONDAI_LIST
+    .map(m => stats.get(m.id))
+    .filter((s): s is MondaiStats & { totalSeconds: number } => !!s)
+    .map(({ totalSeconds, ...s }) => ({ ...s, avgSeconds: totalSeconds / s.answered, trend: s.trend.slice(-TREND_LENGTH) }));
+};
+
+const findWeakest = (stats: MondaiStats[], limit = 3): MondaiStats[] =>
+  stats
+    .filter(s => s.answered >= WEAK_MIN_ANSWERS)
+    .sort((a, b) => a.correct / a.answered - b.correct / b.answered)
+    .slice(0, limit);
+
+// A streak is still alive if the last study day was today or yesterday
+const computeStreaks = (history: SessionRecord[], now = Date.now()) => {
+  const days = new Set(history.map(s => dayKey(s.finishedAt)));
+
+  let current = 0;
+  const cursor = new Date(now);
+  if (!days.has(dayKey(cursor.getTime()))) cursor.setDate(cursor.getDate() - 1);
+  while (days.has(dayKey(cursor.getTime()))) {
+    current += 1;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  [...days].sort().forEach(key => {
+    const [y, m, d] = key.split("-").map(Number);
+    const day = Date.UTC(y, m - 1, d) / DAY_MS;
+    run = previous !== null && day - previous === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  return { current, longest, days };
+};
+
+// --- Study Target Helpers ---
+
+// Items are matched loosely: the model may drop the 〜 or write 〜をもって as をもって
+const normalizeItem = (text: string) => text.normalize("NFKC").replace(/[〜~～\s]/g, "");
+
+// Walks history oldest first so `streak` ends on the latest answer
+const computeTargetProgress = (history: SessionRecord[], include: (a: AnswerRecord) => boolean = () => true): Map<string, TargetProgress> => {
+  const progress = new Map<string, TargetProgress>();
+  [...history].sort((a, b) => a.finishedAt - b.finishedAt).forEach(session => {
+    session.answers.forEach(a => {
+      if (!a.testedItem || !include(a)) return;
+      const key = normalizeItem(a.testedItem);
+      const entry = progress.get(key) ?? { item: a.testedItem, answered: 0, correct: 0, streak: 0 };
+      entry.item = a.testedItem;
+      entry.answered += 1;
+      entry.correct += a.isCorrect ? 1 : 0;
+      entry.streak = a.isCorrect ? entry.streak + 1 : 0;
+      progress.set(key, entry);
+    });
+  });
+  return progress;
+};
+
+const coverageStatus = (progress?: TargetProgress): CoverageStatus =>
+  !progress ? "new" : progress.streak >= COVERAGE_MASTERY_STREAK ? "mastered" : "practiced";
+
+// One word per line: word, reading, meaning (comma or tab separated; reading and meaning optional)
+const parseWordList = (name: string, text: string): WordList => {
+  const id = `list-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const items = text.split("\n").map(line => line.split(/[,\t、]/).map(f => f.trim())).filter(([word]) => word);
+  return {
+    id,
+    name,
+    items: [...new Map(items.map(([word, reading, meaning]) => [word, {
+      id: `${id}:${word}`,
+      kind: "vocab" as TargetKind,
+      text: word,
+      ...(reading && { reading }),
+      ...(meaning && { meaning }),
+    }])).values()],
+  };
+};
+
+// --- Vocabulary Notebook ---
+
+// Keyed by the written form, so saving the same word twice keeps one entry
+const notebookWord = (entry: DictionaryEntry, example?: string, now = Date.now()): NotebookWord => {
+  const text = entry.kanji[0] ?? entry.readings[0];
+  return {
+    id: `notebook:${text}`,
+    kind: "vocab",
+    text,
+    ...(entry.kanji.length > 0 && { reading: entry.readings[0] }),
+    meaning: entry.glosses.join("; "),
+    ...(example && { example }),
+    savedAt: now,
+  };
+};
+
+// The sentence a looked-up word came from, kept in the notebook as its example
+const sentenceAround = (text: string, surface: string): string | undefined =>
+  text.split(/(?<=[。！？\n])/).map(s => s.trim()).find(s => s.includes(surface));
+
+// Characters from the tapped point to the end of its text node, for a longest-match lookup.
+// Ruby readings are skipped: tapping one looks nothing up.
+const textAtPoint = (x: number, y: number): string => {
+  const position = document.caretPositionFromPoint?.(x, y);
+  const range = position ? null : document.caretRangeFromPoint?.(x, y);
+  const node = position?.offsetNode ?? range?.startContainer;
+  const offset = position?.offset ?? range?.startOffset ?? 0;
+  if (!node || node.nodeType !== Node.TEXT_NODE || node.parentElement?.closest("rt")) return "";
+  return (node.textContent ?? "").slice(offset, offset + 12);
+};
+
+// Text of a copied selection or element with the ruby readings left out
+const textWithoutRuby = (copy: DocumentFragment | Element): string => {
+  copy.querySelectorAll("rt").forEach(rt => rt.remove());
+  return copy.textContent ?? "";
+};
+
+// --- Paper Exam Helpers ---
+
+const MAX_PAPER_EXAMS = 10;
+
+// Instructions printed under each 問題 heading, worded as in the test booklet
+const READING_INSTRUCTION = "次の文章を読んで、後の問いに対する答えとして最もよいものを、１・２・３・４から一つ選びなさい。";
+const PAPER_INSTRUCTIONS: Partial<Record<MondaiId, string>> = {
+  vocab_readings: "＿＿＿の言葉の読み方として最もよいものを、１・２・３・４から一つ選びなさい。",
+  vocab_context: "（　　）に入れるのに最もよいものを、１・２・３・４から一つ選びなさい。",
+  vocab_paraphrase: "＿＿＿の言葉に意味が最も近いものを、１・２・３・４から一つ選びなさい。",
+  vocab_usage: "次の言葉の使い方として最もよいものを、１・２・３・４から一つ選びなさい。",
+  grammar_selection: "次の文の（　　）に入れるのに最もよいものを、１・２・３・４から一つ選びなさい。",
+  grammar_order: "次の文の ★ に入る最もよいものを、１・２・３・４から一つ選びなさい。",
+  grammar_text: "次の文章を読んで、文章全体の内容を考えて、空欄に入る最もよいものを、１・２・３・４から一つ選びなさい。",
+  reading_short: READING_INSTRUCTION,
+  reading_medium: READING_INSTRUCTION,
+  reading_long: READING_INSTRUCTION,
+  reading_integrated: "次のAとBの文章を読んで、後の問いに対する答えとして最もよいものを、１・２・３・４から一つ選びなさい。",
+  reading_thematic: READING_INSTRUCTION,
+  reading_info: "次の資料を読んで、後の問いに対する答えとして最もよいものを、１・２・３・４から一つ選びなさい。",
+};
+
+// Listening items need their audio, so they never go on paper
+const isPrintable = (q: Question) => !q.content.script && findMondai(q)?.section !== "Listening";
+
+// Booklet order: Mondai as on the real test, with the questions on one passage kept together
+const paperOrder = (questions: Question[]): Question[] => {
+  const rank = (q: Question) => MONDAI_LIST.findIndex(m => m.id === findMondai(q)?.id);
+  const sorted = [...questions].sort((a, b) => rank(a) - rank(b));
+  const ordered: Question[] = [];
+  sorted.forEach(q => {
+    if (ordered.includes(q)) return;
+    ordered.push(q, ...(q.groupId ? sorted.filter(other => other !== q && other.groupId === q.groupId) : []));
+  });
+  return ordered;
+};
+
+// Mondai are renumbered 問題1, 問題2… in the order printed; items are numbered straight through, as in the real booklet
+const paperSections = (questions: Question[]): PaperSection[] => {
+  const sections: PaperSection[] = [];
+  questions.forEach((question, index) => {
+    const mondai = findMondai(question);
+    let section = sections[sections.length - 1];
+    if (!section || section.mondai?.id !== mondai?.id) {
+      section = { number: sections.length + 1, mondai, items: [] };
+      sections.push(section);
+    }
+    const startsGroup = !question.groupId || questions[index - 1]?.groupId !== question.groupId;
+    section.items.push({ question, index, startsGroup });
+  });
+  return sections;
+};
+
+const mondaiName = (mondai: MondaiConfig) => mondai.label.replace(/^問題\d+\s*/, "");
+
+const paperTitle = (source: PaperSource): string => {
+  if (source.kind === "mock") return "模擬試験 言語知識（文字・語彙・文法）・読解";
+  if (source.kind === "mistakes") return "復習リスト";
+  const labels = source.ids.map(id => {
+    const mondai = MONDAI_LIST.find(m => m.id === id);
+    return mondai ? mondaiName(mondai) : id;
+  });
+  return labels.length <= 3 ? labels.join("・") : `${labels.slice(0, 3).join("・")} ほか${labels.length - 3}件`;
+};
+
+// Marks typed as one string in item order: 1–4 picks the option, anything else leaves the item blank
+const parseMarks = (text: string, questions: Question[]): (number | null)[] => {
+  const digits = text.normalize("NFKC");
+  return questions.map((q, i) => {
+    const n = Number(digits[i]);
+    return n >= 1 && n <= q.options.length ? n - 1 : null;
+  });
+};
+
+// The reverse of parseMarks, so the typed string follows marks tapped on the sheet
+const marksText = (marks: (number | null)[]): string =>
+  marks.map(m => (m === null ? "-" : String(m + 1))).join("").replace(/-+$/, "");
+
+const paperScore = (exam: PaperExam) => ({
+  answered: exam.marks.filter(m => m !== null).length,
+  correct: exam.questions.filter((q, i) => exam.marks[i] === q.correctAnswerIndex).length,
+});
+
+// --- Adaptive Engine ---
+
+const ADAPTIVE_SESSION_SIZE = 10;
+const ADAPTIVE_DUE_SHARE = 0.3; // At most this share of a session is due mistake-bank cards
+const ADAPTIVE_MONDAI_PER_SESSION = 2;
+const HARD_STREAK = 5; // Correct answers in a row on a Mondai before distractors get harder
+const WEAK_ITEM_ACCURACY = 0.6;
+const MAX_WEAK_ITEMS = 8;
+const UNSEEN_WEIGHT = 0.5; // Mondai with no history still get picked now and then
+
+// Single-item Vocabulary, Grammar and Reading Mondai; sets and listening keep their own sessions
+const ADAPTIVE_MONDAI = MOCK_EXAM_MONDAI.filter(m => !isGroupedMondai(m));
+
+const ADAPTIVE_CONFIG: MondaiConfig = {
+  id: "adaptive_session",
+  section: "Review",
+  label: "おすすめ学習",
+  subLabel: "Study What I Need",
+  count: ADAPTIVE_SESSION_SIZE,
+  description: "Due reviews plus new questions from your weakest Mondai."
+};
+
+// Consecutive correct answers on a Mondai, counting back from the latest
+const recentStreak = (history: SessionRecord[], mondaiId: MondaiId): number => {
+  const answers = [...history]
+    .sort((a, b) => a.finishedAt - b.finishedAt)
+    .flatMap(s => s.answers)
+    .filter(a => a.mondaiId === mondaiId);
+  let streak = 0;
+  for (let i = answers.length - 1; i >= 0 && answers[i].isCorrect; i--) streak += 1;
+  return streak;
+};
+
+// Tagged items the learner misses on this Mondai, worst first
+const findWeakItems = (history: SessionRecord[], mondaiId: MondaiId): string[] =>
+  [...computeTargetProgress(history, a => a.mondaiId === mondaiId).values()]
+    .filter(p => p.correct / p.answered < WEAK_ITEM_ACCURACY && p.streak < COVERAGE_MASTERY_STREAK)
+    .sort((a, b) => a.correct / a.answered - b.correct / b.answered)
+    .slice(0, MAX_WEAK_ITEMS)
+    .map(p => p.item);
+
+// Tunes one Mondai's prompt to the learner's record on it
+const adaptConfig = (config: MondaiConfig, history: SessionRecord[]): MondaiConfig => {
+  const weakItems = targetKindFor(config) ? findWeakItems(history, config.id) : [];
+  return {
+    ...config,
+    difficulty: recentStreak(history, config.id) >= HARD_STREAK ? "hard" : "standard",
+    ...(weakItems.length > 0 && { weakItems }),
+  };
+};
+
+// Splits a session between due cards and the Mondai with the lowest accuracy
+const planAdaptiveSession = (history: SessionRecord[], dueCards: ReviewCard[]) => {
+  const review = dueCards.slice(0, Math.round(ADAPTIVE_SESSION_SIZE * ADAPTIVE_DUE_SHARE));
+  const remaining = ADAPTIVE_SESSION_SIZE - review.length;
+
+  const stats = computeMondaiStats(history);
+  const weighted = ADAPTIVE_MONDAI.map(m => {
+    const s = stats.find(st => st.id === m.id);
+    return { config: m, weight: s ? 1 - s.correct / s.answered : UNSEEN_WEIGHT, tiebreak: Math.random() };
+  }).sort((a, b) => b.weight - a.weight || a.tiebreak - b.tiebreak);
+
+  const chosen = weighted.slice(0, ADAPTIVE_MONDAI_PER_SESSION);
+  const parts = chosen.map(({ config }, i) => adaptConfig({
+    ...config,
+    count: Math.floor(remaining / chosen.length) + (i < remaining % chosen.length ? 1 : 0),
+  }, history));
+
+  return { review, parts };
+};
+
+// --- Question Pool ---
+
+// A passage set is one unit; everything else is a unit of one
+const poolUnits = <T extends Pick<Question, "groupId">>(questions: T[]): T[][] => {
+  const units = new Map<string, T[]>();
+  questions.forEach((q, i) => {
+    const key = q.groupId ?? `item-${i}`;
+    units.set(key, [...(units.get(key) ?? []), q]);
+  });
+  return [...units.values()];
+};
+
+// The leading units that fit in `count`, so a passage set is never cut short
+const takeWholeUnits = <T extends Pick<Question, "groupId">>(questions: T[], count: number): T[] => {
+  const taken: T[] = [];
+  poolUnits(questions).forEach(unit => {
+    if (taken.length + unit.length <= count) taken.push(...unit);
+  });
+  return taken;
+};
+
+const isUnseen = (q: Question, mastered: Set<string>) => !isExcluded(q, mastered);
+
+const poolStock = (pool: Question[], mastered: Set<string>): Partial<Record<MondaiId, number>> => {
+  const stock: Partial<Record<MondaiId, number>> = {};
+  pool.forEach(q => {
+    if (q.mondaiId && isUnseen(q, mastered)) stock[q.mondaiId] = (stock[q.mondaiId] ?? 0) + 1;
+  });
+  return stock;
+};
+
+// Whole units for one session; with picked targets only items tagged with one of them qualify
+const drawFromPool = (pool: Question[], config: MondaiConfig, mastered: Set<string>): Question[] => {
+  const wanted = config.targets && new Set(config.targets.map(t => normalizeItem(t.text)));
+  const drawn: Question[] = [];
+  poolUnits(pool.filter(q => q.mondaiId === config.id)).forEach(unit => {
+    if (drawn.length + unit.length > config.count) return;
+    if (!unit.every(q => isUnseen(q, mastered))) return;
+    if (wanted && !unit.every(q => q.testedItem && wanted.has(normalizeItem(q.testedItem)))) return;
+    drawn.push(...unit);
+  });
+  return drawn;
+};
+
+// Pause between top-up requests, each a single provider request; slower than the question server
+// refills its rate-limit bucket, so the pool never takes the requests a session needs
+const POOL_REQUEST_GAP_MS = 10 * 1000;
+
+// Items to request for one Mondai: never more than a session's worth, rounded up to whole passage sets
+const poolRequestSize = (config: MondaiConfig, stock: number, poolSize: number): number => {
+  const deficit = Math.min(poolSize - stock, config.count);
+  if (deficit <= 0) return 0;
+  const perPassage = config.questionsPerPassage ?? 1;
+  return Math.ceil(deficit / perPassage) * perPassage;
+};
+
+// --- Flag Helpers ---
+
+// Reported items stay out of new sessions until the check clears them, and for good once discarded
+const quarantinedHashes = (flagged: FlaggedQuestion[]): string[] =>
+  flagged.filter(f => f.status === "pending" || f.status === "discarded").map(f => f.id);
+
+// A fix is only taken if it still makes a well-formed item; 並べ替え answers are tied to
+// `correctOrder`, so those can be confirmed or discarded but not re-keyed
+const applyVerification = (entry: FlaggedQuestion, result: VerificationResult): FlaggedQuestion => {
+  const verdictNote = result.note;
+  if (result.verdict === "valid") return { ...entry, status: "restored", verdictNote };
+  if (result.verdict === "fixed") {
+    const q = entry.question;
+    const options = result.options ?? q.options;
+    const correctAnswerIndex = result.correctAnswerIndex ?? q.correctAnswerIndex;
+    const isWellFormed = options.length === q.options.length
+      && new Set(options).size === options.length
+      && options.every(o => typeof o === "string" && o.trim())
+      && Number.isInteger(correctAnswerIndex) && correctAnswerIndex >= 0 && correctAnswerIndex < options.length;
+    const keepsOrder = !q.correctOrder
+      || (correctAnswerIndex === q.correctAnswerIndex && options.every((o, i) => o === q.options[i]));
+    if (isWellFormed && keepsOrder) {
+      const fixed = { ...q, id: `${q.id}-fixed`, options, correctAnswerIndex, explanation: result.explanation || q.explanation };
+      return { ...entry, status: "fixed", verdictNote, fixed };
+    }
+  }
+  return { ...entry, status: "discarded", verdictNote };
+};
+
+// --- Routing ---
+
+// Hash routes, so any static host can serve them: #/, #/mondai/<id>, #/review, #/results, #/history...
+const SCREEN_ROUTES: Partial<Record<AppState, string>> = {
+  menu: "/",
+  results: "/results",
+  dashboard: "/history",
+  settings: "/settings",
+  targets: "/targets",
+  flagged: "/flagged",
+  notebook: "/notebook",
+  paper: "/paper",
+};
+
+const sessionRoute = (config: MondaiConfig): string => {
+  switch (config.id) {
+    case "review_mistakes":
+      return "/review";
+    case "adaptive_session":
+      return "/adaptive";
+    case "mock_exam":
+      return "/mock-exam";
+    default:
+      return `/mondai/${config.id}`;
+  }
+};
+
+// Loading, error and the quiz screens all sit on the route of the session they belong to
+const routeFor = (state: AppState, config: MondaiConfig | null): string =>
+  SCREEN_ROUTES[state] ?? (config ? sessionRoute(config) : "/");
+
+const currentRoute = () => window.location.hash.replace(/^#/, "") || "/";
+
+// --- Backup ---
+
+const buildBackup = (mistakes: ReviewCard[], mastered: string[], history: SessionRecord[], settings: ProviderSettings, wordLists: WordList[], flagged: FlaggedQuestion[], notebook: NotebookWord[]): AppBackup => {
+  const { localApiKey, ttsApiKey, ...safeSettings } = settings;
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    mistakes,
+    mastered,
+    history,
+    settings: safeSettings,
+    wordLists,
+    flagged,
+    notebook,
+  };
+};
+
+// Throws if the file is not a backup this version can read.
+// Older versions are upgraded here; the bank migrations also cover pre-structured entries.
+const parseBackup = (text: string): AppBackup => {
+  const parsed = JSON.parse(text);
+  if (parsed?.format !== BACKUP_FORMAT) throw new Error("Not a JLPT N1 backup file");
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${parsed.version}`);
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: parsed.exportedAt ?? Date.now(),
+    mistakes: migrateMistakes(Array.isArray(parsed.mistakes) ? parsed.mistakes : []),
+    mastered: Array.isArray(parsed.mastered)
+      ? (parsed.version >= 2 ? parsed.mastered : migrateMastered(parsed.mastered))
+      : [],
+    history: Array.isArray(parsed.history) ? parsed.history : [],
+    settings: { ...DEFAULT_PROVIDER_SETTINGS, ...parsed.settings },
+    wordLists: Array.isArray(parsed.wordLists) ? parsed.wordLists : [],
+    flagged: Array.isArray(parsed.flagged) ? parsed.flagged : [],
+    notebook: Array.isArray(parsed.notebook) ? parsed.notebook : [],
+  };
+};
+
+// On merge the copy already on this device wins, so importing an older backup never rewinds a schedule
+const mergeById = <T extends { id: string }>(current: T[], incoming: T[]): T[] => {
+  const known = new Set(current.map(item => item.id));
+  return [...current, ...incoming.filter(item => !known.has(item.id))];
+};
+
+const mergeMistakes = (current: ReviewCard[], incoming: ReviewCard[]): ReviewCard[] => {
+  const known = new Set(current.map(fingerprintHash));
+  return mergeById(current, incoming.filter(q => !known.has(fingerprintHash(q))));
+};
+
+const mergeMastered = (current: string[], incoming: string[]): string[] =>
+  [...new Set([...current, ...incoming])];
+
+const mergeHistory = (current: SessionRecord[], incoming: SessionRecord[]): SessionRecord[] =>
+  mergeById(current, incoming).sort((a, b) => a.finishedAt - b.finishedAt);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\n/g, "<br>");
+
+// Quoted per RFC 4180, which Anki's importer also accepts for tab-separated files
+const quoteField = (field: string) => `"${field.replace(/"/g, '""')}"`;
+
+// Anki tags are space-separated, so labels like "問題1 漢字読み" become "問題1_漢字読み"
+const toAnkiTag = (label: string) => label.trim().replace(/\s+/g, "_");
+
+// One note per card: Question, Options, Answer, Explanation (with any tutor notes), Tags.
+// The header lines tell Anki the separator, that fields are HTML and which column holds tags.
+const buildAnkiExport = (cards: ReviewCard[], delimiter: AnkiDelimiter): string => {
+  const header = [
+    `#separator:${delimiter === "\t" ? "tab" : "comma"}`,
+    "#html:true",
+    "#tags column:5",
+  ];
+  const rows = cards.map(q => {
+    const options = q.options.map((o, i) => `${i + 1}. ${escapeHtml(o)}`).join("<br>");
+    const answer = q.correctOrder
+      ? q.correctOrder.map(i => `${i + 1}. ${escapeHtml(q.options[i])}`).join(" → ")
+      : `${q.correctAnswerIndex + 1}. ${escapeHtml(q.options[q.correctAnswerIndex])}`;
+    const tags = [q.categoryLabel, q.mondaiId].filter((t): t is string => !!t).map(toAnkiTag).join(" ");
+    const notes = (q.notes ?? []).map(n => `<br><br><b>${escapeHtml(n.prompt)}</b><br>${escapeHtml(n.answer)}`).join("");
+    return [escapeHtml(q.question), options, answer, escapeHtml(q.explanation) + notes, tags].map(quoteField).join(delimiter);
+  });
+  return [...header, ...rows].join("\n");
+};
+
+const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking in the same tick can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Storage ---
+
+// Keys used before the IndexedDB store; read once on first open, then removed
+const LEGACY_KEY_MISTAKES = "jlpt_n1_mistakes";
+const LEGACY_KEY_MASTERED = "jlpt_n1_mastered";
+const LEGACY_KEY_SETTINGS = "jlpt_n1_settings";
+const LEGACY_KEY_HISTORY = "jlpt_n1_history";
+
+const DB_NAME = "jlpt_n1";
+const STORE_MISTAKES = "mistakes";
+const STORE_MASTERED = "mastered";
+const STORE_HISTORY = "history";
+const STORE_META = "meta";
+const STORE_POOL = "pool";
+const STORE_FLAGGED = "flagged";
+
+const HISTORY_RETENTION_DAYS = 365;
+
+// One entry per schema version; opening at DB_VERSION runs every step above the stored version
+const DB_MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  db => {
+    const mistakes = db.createObjectStore(STORE_MISTAKES, { keyPath: "id" });
+    mistakes.createIndex("hash", "hash", { unique: false });
+    mistakes.createIndex("mondaiId", "mondaiId", { unique: false });
+    mistakes.createIndex("due", "srs.due", { unique: false });
+    db.createObjectStore(STORE_MASTERED, { keyPath: "hash" });
+    db.createObjectStore(STORE_HISTORY, { keyPath: "id" }).createIndex("finishedAt", "finishedAt", { unique: false });
+    db.createObjectStore(STORE_META);
+  },
+  // v2: cards are indexed by content fingerprint rather than question text.
+  // Mastered entries only ever kept a hash, so older ones cannot be re-keyed and simply stop matching.
+  (_, tx) => {
+    tx.objectStore(STORE_MISTAKES).openCursor().onsuccess = event => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      cursor.update(toStoredCard(cursor.value));
+      cursor.continue();
+    };
+  },
+  // v3: pre-generated questions for offline study
+  db => {
+    db.createObjectStore(STORE_POOL, { keyPath: "id" }).createIndex("mondaiId", "mondaiId", { unique: false });
+  },
+  // v4: reported questions, keyed by fingerprint hash
+  db => {
+    db.createObjectStore(STORE_FLAGGED, { keyPath: "id" });
+  },
+];
+const DB_VERSION = DB_MIGRATIONS.length;
+
+interface MasteredRecord {
+  hash: string;
+  masteredAt: number;
+}
+
+interface StoredData {
+  mistakes: ReviewCard[];
+  mastered: string[];
+  history: SessionRecord[];
+  settings: ProviderSettings;
+  wordLists: WordList[];
+  pool: Question[];
+  flagged: FlaggedQuestion[];
+  notebook: NotebookWord[];
+  paperExams: PaperExam[];
+  furigana: boolean; // A display preference, kept apart from the provider settings
+  activeSession: ActiveSession | null;
+  lastResult: LastResult | null;
+}
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// The hash is stored alongside the card so the "hash" index can find it
+const toStoredCard = (card: ReviewCard) => ({ ...card, hash: fingerprintHash(card) });
+
+// Copies the localStorage banks into a fresh database; the keys are removed only once the write has committed
+const importLegacyStorage = async (db: IDBDatabase) => {
+  // A corrupt key is skipped rather than failing the whole database open
+  const read = (key: string) => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw);
+    } catch (e) {
+      console.error(`Skipping unreadable legacy data in ${key}`, e);
+      return null;
+    }
+  };
+  const mistakes = read(LEGACY_KEY_MISTAKES);
+  const mastered = read(LEGACY_KEY_MASTERED);
+  const settings = read(LEGACY_KEY_SETTINGS);
+  const history = read(LEGACY_KEY_HISTORY);
+  if (!mistakes && !mastered && !settings && !history) return;
+
+  const tx = db.transaction([STORE_MISTAKES, STORE_MASTERED, STORE_HISTORY, STORE_META], "readwrite");
+  migrateMistakes(mistakes ?? []).forEach(card => tx.objectStore(STORE_MISTAKES).put(toStoredCard(card)));
+  migrateMastered(mastered ?? []).forEach(hash => tx.objectStore(STORE_MASTERED).put({ hash, masteredAt: Date.now() }));
+  (history ?? []).forEach((session: SessionRecord) => tx.objectStore(STORE_HISTORY).put(session));
+  if (settings) tx.objectStore(STORE_META).put(settings, "settings");
+  await transactionDone(tx);
+
+  [LEGACY_KEY_MISTAKES, LEGACY_KEY_MASTERED, LEGACY_KEY_SETTINGS, LEGACY_KEY_HISTORY].forEach(key => localStorage.removeItem(key));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        DB_MIGRATIONS.slice(event.oldVersion).forEach(migrate => migrate(request.result, request.transaction!));
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).then(async db => {
+      // A failed import leaves the old keys in place for the next start; the database stays usable
+      await importLegacyStorage(db).catch(e => console.error("Failed to import legacy storage", e));
+      return db;
+    });
+  }
+  return dbPromise;
+};
+
+// Sessions past the retention window are dropped; the dashboard only charts recent trends
+const pruneHistory = async (db: IDBDatabase) => {
+  const cutoff = Date.now() - HISTORY_RETENTION_DAYS * DAY_MS;
+  const tx = db.transaction(STORE_HISTORY, "readwrite");
+  const index = tx.objectStore(STORE_HISTORY).index("finishedAt");
+  const keys = await requestResult(index.getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+  keys.forEach(key => tx.objectStore(STORE_HISTORY).delete(key));
+  await transactionDone(tx);
+};
+
+const loadStorage = async (): Promise<StoredData> => {
+  const db = await openDatabase();
+  await pruneHistory(db);
+
+  const tx = db.transaction([STORE_MISTAKES, STORE_MASTERED, STORE_HISTORY, STORE_META, STORE_POOL, STORE_FLAGGED], "readonly");
+  const [mistakes, mastered, history, settings, wordLists, pool, flagged, notebook, paperExams, furigana, activeSession, sessionProgress, lastResult] = await Promise.all([
+    requestResult(tx.objectStore(STORE_MISTAKES).getAll()),
+    requestResult(tx.objectStore(STORE_MASTERED).getAllKeys()),
+    requestResult(tx.objectStore(STORE_HISTORY).index("finishedAt").getAll()),
+    requestResult(tx.objectStore(STORE_META).get("settings")),
+    requestResult(tx.objectStore(STORE_META).get("wordLists")),
+    requestResult(tx.objectStore(STORE_POOL).getAll()),
+    requestResult(tx.objectStore(STORE_FLAGGED).getAll()),
+    requestResult(tx.objectStore(STORE_META).get("notebook")),
+    requestResult(tx.objectStore(STORE_META).get("paperExams")),
+    requestResult(tx.objectStore(STORE_META).get("furigana")),
+    requestResult(tx.objectStore(STORE_META).get("activeSession")),
+    requestResult(tx.objectStore(STORE_META).get("sessionProgress")),
+    requestResult(tx.objectStore(STORE_META).get("lastResult")),
+  ]);
+  return {
+    mistakes: mistakes.map(({ hash, ...card }) => card as ReviewCard),
+    mastered: mastered as string[],
+    history,
+    settings: { ...DEFAULT_PROVIDER_SETTINGS, ...settings },
+    wordLists: wordLists ?? [],
+    pool,
+    flagged,
+    notebook: notebook ?? [],
+    paperExams: paperExams ?? [],
+    furigana: furigana ?? settings?.furigana ?? false, // Older versions kept it in the settings
+    // Progress is written separately (it changes every second) and only belongs to the session it was saved for
+    activeSession: activeSession
+      ? { ...activeSession, ...(sessionProgress?.sessionId === activeSession.id && { progress: sessionProgress.progress }) }
+      : null,
+    lastResult: lastResult ?? null,
+  };
+};
+
+// Writes only what changed between two snapshots of a bank, so an answer costs one record, not the whole array
+const persistChanges = async <T,>(
+  storeName: string,
+  prev: T[],
+  next: T[],
+  keyOf: (item: T) => IDBValidKey,
+  toRecord: (item: T) => unknown
+) => {
+  const before = new Map(prev.map(item => [keyOf(item), item]));
+  const after = new Set(next.map(keyOf));
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, "readwrite");
+  const store = tx.objectStore(storeName);
+  next.forEach(item => {
+    if (before.get(keyOf(item)) !== item) store.put(toRecord(item));
+  });
+  before.forEach((_, key) => {
+    if (!after.has(key)) store.delete(key);
+  });
+  await transactionDone(tx);
+};
+
+const persistMistakes = (prev: ReviewCard[], next: ReviewCard[]) =>
+  persistChanges(STORE_MISTAKES, prev, next, card => card.id, toStoredCard);
+
+const persistMastered = (prev: string[], next: string[]) =>
+  persistChanges(STORE_MASTERED, prev, next, hash => hash, (hash): MasteredRecord => ({ hash, masteredAt: Date.now() }));
+
+const persistHistory = (prev: SessionRecord[], next: SessionRecord[]) =>
+  persistChanges(STORE_HISTORY, prev, next, session => session.id, session => session);
+
+const persistPool = (prev: Question[], next: Question[]) =>
+  persistChanges(STORE_POOL, prev, next, q => q.id, q => q);
+
+const persistFlagged = (prev: FlaggedQuestion[], next: FlaggedQuestion[]) =>
+  persistChanges(STORE_FLAGGED, prev, next, entry => entry.id, entry => entry);
+
+// Small singletons (settings, word lists) live in the key-value meta store
+const persistMeta = async (key: string, value: unknown) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORE_META, "readwrite");
+  tx.objectStore(STORE_META).put(value, key);
+  await transactionDone(tx);
+};
+
+// --- Question Providers ---
+
+const MAX_GENERATION_ATTEMPTS = 3;
+const OVERGENERATION_RATIO = 0.25; // Extra items requested per round to absorb rejects and duplicates
+
+// Gemini runs behind our own API server (server.ts), which holds the key and validates every item.
+// The response is NDJSON: one line per question, or per passage set for grouped Mondai.
+const fetchQuestionUnits = async function* (config: MondaiConfig): AsyncGenerator<RawQuestion[]> {
+  const params = new URLSearchParams({ mondai: config.id, count: String(config.count) });
+  if (config.difficulty) params.set("difficulty", config.difficulty);
+  if (config.targets?.length) {
+    params.set("targets", JSON.stringify(config.targets.map(({ text, reading, meaning }) => ({ text, reading, meaning }))));
+  }
+  config.weakItems?.forEach(item => params.append("weak", item));
+
+  const response = await fetch(`/api/questions?${params}`);
+  if (response.status === 429) {
+    throw new Error(`Too many requests; try again in ${response.headers.get("Retry-After") ?? "a few"} seconds`);
+  }
+  if (!response.ok || !response.body) {
+    const message = await response.text().catch(() => "");
+    throw new Error(message || `Question server request failed (${response.status})`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) if (line.trim()) yield JSON.parse(line);
+    }
+    if (buffer.trim()) yield JSON.parse(buffer);
+  } finally {
+    // Stopping early (enough questions) closes the connection; the server caches what is left
+    reader.cancel().catch(() => {});
+  }
+};
+
+const serverProvider = (): QuestionProvider => ({
+  id: "gemini",
+  generate: async (config) => {
+    const questions: RawQuestion[] = [];
+    for await (const unit of fetchQuestionUnits(config)) questions.push(...unit);
+    return questions;
+  },
+  stream: fetchQuestionUnits,
+});
+
+// Any server speaking the OpenAI chat-completions API (llama.cpp, Ollama, LM Studio, vLLM...)
+const openAICompatibleProvider = (settings: ProviderSettings): QuestionProvider => ({
+  id: "openai_compatible",
+  generate: async (config) => {
+    const endpoint = settings.localEndpoint.replace(/\/+$/, "");
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.localApiKey) headers.Authorization = `Bearer ${settings.localApiKey}`;
+
+    const response = await fetch(`${endpoint}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: settings.localModel,
+        messages: [
+          { role: "system", content: SYSTEM_INSTRUCTION },
+          { role: "user", content: buildQuestionPrompt(config) + buildJsonFormatInstruction(config) },
+        ],
+        response_format: { type: "json_object" },
+      }),
+    });
+    if (!response.ok) throw new Error(`Local LLM request failed (${response.status})`);
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (!text) throw new Error("No data returned");
+    return parseQuestionPayload(text);
+  },
+});
+
+// Serves items from an imported JSON pack; needs no network at all.
+// Items sharing a `groupId` are drawn together so a passage keeps all its questions.
+const questionPackProvider = (settings: ProviderSettings): QuestionProvider => ({
+  id: "question_pack",
+  generate: async (config) => {
+    const all = (settings.questionPack?.questions ?? []).filter(q => q.mondaiId === config.id);
+    if (all.length === 0) throw new Error(`Question pack has no items for ${config.label}`);
+
+    // Picked study targets narrow the pack to items tagged with them, when it has any
+    const wanted = new Set(config.targets?.map(t => normalizeItem(t.text)));
+    const targeted = all.filter(q => q.testedItem && wanted.has(normalizeItem(q.testedItem)));
+    const items = targeted.length > 0 ? targeted : all;
+
+    const groups = new Map<string, QuestionPackItem[]>();
+    items.forEach((q, i) => {
+      const key = q.groupId ?? `item-${i}`;
+      groups.set(key, [...(groups.get(key) ?? []), q]);
+    });
+
+    const picked: QuestionPackItem[] = [];
+    [...groups.values()].sort(() => 0.5 - Math.random()).forEach(group => {
+      if (picked.length < config.count) picked.push(...group);
+    });
+    return picked;
+  },
+});
+
+const createQuestionProvider = (settings: ProviderSettings): QuestionProvider => {
+  switch (settings.provider) {
+    case "openai_compatible":
+      return openAICompatibleProvider(settings);
+    case "question_pack":
+      return questionPackProvider(settings);
+    default:
+      return serverProvider();
+  }
+};
+
+// Throws if the file is not a usable pack; unknown Mondai ids are dropped
+const parseQuestionPack = (text: string, name: string): QuestionPack => {
+  const parsed = JSON.parse(text);
+  const questions = Array.isArray(parsed) ? parsed : parsed.questions;
+  if (!Array.isArray(questions)) throw new Error("Question pack must contain a \"questions\" array");
+  return {
+    name: parsed.name || name,
+    questions: questions.filter((q: any) => MONDAI_LIST.some(m => m.id === q.mondaiId)),
+  };
+};
+
+// Items whose fingerprint is already in the session or in `exclude` are dropped, and each round asks
+// for a little more than the shortfall so the session still comes back complete.
+// A passage set is kept or dropped whole so its questions never get split.
+// With `onQuestions`, accepted items are handed over as they arrive (streamed when the provider can).
+// `attempts` caps the provider requests made for one call.
+const generateQuestions = async (
+  config: MondaiConfig,
+  settings: ProviderSettings,
+  exclude: Set<string> = new Set(),
+  onQuestions?: (batch: Question[]) => void,
+  attempts = MAX_GENERATION_ATTEMPTS
+): Promise<Question[]> => {
+  try {
+    const provider = createQuestionProvider(settings);
+    const accepted: Question[] = [];
+    const excluded: ValidQuestion[] = [];
+    const seen = new Set<string>();
+    const perPassage = config.questionsPerPassage ?? 1;
+
+    // Shuffle options here to ensure randomness and avoid model bias, then add IDs and Category
+    const hand = (unit: ValidQuestion[]) => {
+      const questions = shuffleOptions(unit).map((q: any) => ({
+        ...q,
+        id: `${config.id}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        categoryLabel: config.label,
+        mondaiId: config.id,
+        timestamp: Date.now()
+      }));
+      accepted.push(...questions);
+      onQuestions?.(questions);
+    };
+
+    const offer = (rawUnit: RawQuestion[]) => {
+      const unit = rawUnit.flatMap(raw => {
+        const q = validateQuestion(raw, config.id);
+        if (!q) console.warn("Rejected malformed question:", raw);
+        return q ? [q] : [];
+      });
+      // A passage set that lost a question would leave a slot no whole set can fill
+      if (unit.length === 0 || unit.length < rawUnit.length || accepted.length + unit.length > config.count) return;
+
+      const hashes = unit.map(q => questionHash(questionFingerprint(q, config.id)));
+      if (new Set(hashes).size < hashes.length || hashes.some(h => seen.has(h))) return;
+      if (unit.some(q => isExcluded(q, exclude, config.id))) {
+        excluded.push(...unit);
+        return;
+      }
+      hashes.forEach(h => seen.add(h));
+      hand(unit);
+    };
+
+    for (let attempt = 0; attempt < attempts && accepted.length < config.count; attempt++) {
+      const missing = config.count - accepted.length;
+      const extra = perPassage > 1 ? perPassage : Math.ceil(missing * OVERGENERATION_RATIO);
+      const request = { ...config, count: missing + extra };
+
+      if (onQuestions && provider.stream) {
+        for await (const unit of provider.stream(request)) {
+          offer(unit);
+          if (accepted.length >= config.count) break;
+        }
+      } else {
+        const units = new Map<string, RawQuestion[]>();
+        (await provider.generate(request)).forEach((raw, i) => {
+          const key = raw?.groupId ?? `item-${i}`;
+          units.set(key, [...(units.get(key) ?? []), raw]);
+        });
+        units.forEach(offer);
+      }
+    }
+
+    if (accepted.length === 0 && excluded.length > 0) {
+      // Edge case: every item returned was already mastered
+      console.warn("All generated questions were previously mastered. Showing anyway.");
+      hand(takeWholeUnits(excluded, config.count));
+    }
+    if (accepted.length === 0) throw new Error("No valid questions returned");
+    if (accepted.length < config.count) {
+      console.warn(`Only ${accepted.length} of ${config.count} valid questions after ${attempts} attempts.`);
+    }
+
+    return accepted;
+  } catch (error) {
+    console.error("Error generating questions:", error);
+    throw error;
+  }
+};
+
+// Builds one exam booklet: every Mondai in official order, trimmed to its official item count.
+// A section that fails is asked for once more after the others; if it fails again the booklet goes without it.
+const generateMockExam = async (settings: ProviderSettings): Promise<Question[]> => {
+  const results = await Promise.allSettled(MOCK_EXAM_MONDAI.map(config => generateQuestions(config, settings)));
+  const sections: Question[][] = [];
+  for (const [i, result] of results.entries()) {
+    const config = MOCK_EXAM_MONDAI[i];
+    if (result.status === "fulfilled") {
+      sections.push(result.value);
+      continue;
+    }
+    sections.push(await generateQuestions(config, settings).catch(error => {
+      console.warn(`Leaving ${config.id} out of the mock exam:`, error);
+      return [];
+    }));
+  }
+  if (sections.every(qs => qs.length === 0)) throw new Error("No valid questions returned");
+  return sections.flatMap((qs, i) => takeWholeUnits(qs, MOCK_EXAM_MONDAI[i].count));
+};
+
+// --- Tutor ---
+
+// Follow-up questions about one answered item go to the question server, which holds the
+// Gemini chat. The whole conversation is sent each turn; the reply streams back as plain text.
+const askTutor = async (
+  question: Question,
+  selectedOption: number | null,
+  history: TutorMessage[],
+  message: string,
+  onText: (text: string) => void
+): Promise<string> => {
+  const response = await fetch("/api/tutor", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      question: {
+        text: question.question,
+        options: question.options,
+        correctAnswerIndex: question.correctAnswerIndex,
+        selectedIndex: selectedOption,
+        explanation: question.explanation,
+        testedItem: question.testedItem,
+      },
+      history,
+      message,
+    }),
+  });
+  if (response.status === 429) {
+    throw new Error(`Too many requests; try again in ${response.headers.get("Retry-After") ?? "a few"} seconds`);
+  }
+  if (!response.ok || !response.body) throw new Error(`Tutor request failed (${response.status})`);
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += value;
+    onText(text);
+  }
+  return text;
+};
+
+// --- Question Verification ---
+
+// Second-pass check of a reported item, run by the question server
+const verifyQuestion = async (entry: FlaggedQuestion): Promise<VerificationResult> => {
+  const q = entry.question;
+  const response = await fetch("/api/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      question: {
+        text: q.question,
+        options: q.options,
+        correctAnswerIndex: q.correctAnswerIndex,
+        explanation: q.explanation,
+        testedItem: q.testedItem,
+        mondaiId: q.mondaiId,
+        content: q.content,
+        correctOrder: q.correctOrder,
+      },
+      reason: FLAG_REASON_LABELS[entry.reason],
+      comment: entry.comment,
+    }),
+  });
+  if (!response.ok) throw new Error(`Verification request failed (${response.status})`);
+  return response.json();
+};
+
+// --- Speech Backends ---
+
+const LINE_GAP_MS = 600; // Pause between script lines, as on the exam audio
+
+// Pitch and rate per voice; `voiceIndex` picks among the installed Japanese voices when there are several
+const BROWSER_VOICE_PROFILES: Record<Voice, { pitch: number; rate: number; voiceIndex: number }> = {
+  narrator: { pitch: 1.0, rate: 0.95, voiceIndex: 0 },
+  female: { pitch: 1.25, rate: 1.0, voiceIndex: 0 },
+  male: { pitch: 0.8, rate: 1.0, voiceIndex: 1 },
+};
+
+const pause = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const browserSpeechBackend = (): SpeechBackend => {
+  let cancelled = false;
+  return {
+    id: "browser",
+    speak: async (lines) => {
+      cancelled = false;
+      const synth = window.speechSynthesis;
+      const voices = synth.getVoices().filter(v => v.lang.startsWith("ja"));
+      for (const line of lines) {
+        if (cancelled) return;
+        await new Promise<void>(resolve => {
+          const profile = BROWSER_VOICE_PROFILES[line.voice];
+          const utterance = new SpeechSynthesisUtterance(line.text);
+          utterance.lang = "ja-JP";
+          utterance.pitch = profile.pitch;
+          utterance.rate = profile.rate;
+          if (voices.length > 0) utterance.voice = voices[profile.voiceIndex % voices.length];
+          utterance.onend = () => resolve();
+          utterance.onerror = () => resolve();
+          synth.speak(utterance);
+        });
+        await pause(LINE_GAP_MS);
+      }
+    },
+    stop: () => {
+      cancelled = true;
+      window.speechSynthesis.cancel();
+    },
+  };
+};
+
+// Any server implementing the OpenAI `/audio/speech` endpoint. All lines are fetched first so playback has no gaps.
+const openAITtsBackend = (settings: ProviderSettings): SpeechBackend => {
+  let cancelled = false;
+  let current: HTMLAudioElement | null = null;
+
+  const synthesize = async (line: ScriptLine): Promise<string> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (settings.ttsApiKey) headers.Authorization = `Bearer ${settings.ttsApiKey}`;
+    const response = await fetch(`${settings.ttsEndpoint.replace(/\/+$/, "")}/audio/speech`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: settings.ttsModel, input: line.text, voice: settings.ttsVoices[line.voice] }),
+    });
+    if (!response.ok) throw new Error(`TTS request failed (${response.status})`);
+    return URL.createObjectURL(await response.blob());
+  };
+
+  return {
+    id: "openai_tts",
+    speak: async (lines) => {
+      cancelled = false;
+      // Every line that did synthesize is revoked, even when another one failed
+      const results = await Promise.allSettled(lines.map(synthesize));
+      const urls = results.flatMap(r => (r.status === "fulfilled" ? [r.value] : []));
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+      if (failed) {
+        urls.forEach(url => URL.revokeObjectURL(url));
+        throw failed.reason;
+      }
+      try {
+        for (const url of urls) {
+          if (cancelled) return;
+          await new Promise<void>(resolve => {
+            current = new Audio(url);
+            current.onended = () => resolve();
+            current.onerror = () => resolve();
+            current.onpause = () => resolve();
+            current.play().catch(() => resolve());
+          });
+          await pause(LINE_GAP_MS);
+        }
+      } finally {
+        current = null;
+        urls.forEach(url => URL.revokeObjectURL(url));
+      }
+    },
+    stop: () => {
+      cancelled = true;
+      current?.pause();
+    },
+  };
+};
+
+const createSpeechBackend = (settings: ProviderSettings): SpeechBackend =>
+  settings.speechBackend === "openai_tts" ? openAITtsBackend(settings) : browserSpeechBackend();
+
+// What the exam audio plays: the question (unless it only comes after the talk), the script,
+// the question again, and the options for Mondai whose options are not printed
+const buildListeningSequence = (q: Question): ScriptLine[] => {
+  const narrate = (text: string): ScriptLine => ({ speaker: "ナレーター", voice: "narrator", text });
+  const { stem, script = [] } = q.content;
+  const spoken = !!findMondai(q)?.optionsSpoken;
+  return [
+    ...(spoken ? [] : [narrate(stem)]),
+    ...script,
+    ...(q.mondaiId === "listening_response" ? [] : [narrate(stem)]),
+    ...(spoken ? q.options.map((option, i) => narrate(`${i + 1}、${option}`)) : []),
+  ];
+};
+
+// --- Components ---
+
+const Menu = ({ 
+  onSelect, 
+  mistakeCount, 
+  dueCount,
+  onReviewMistakes,
+  onStartAdaptive,
+  onStartMockExam,
+  onOpenSettings,
+  onOpenDashboard,
+  onOpenTargets,
+  onOpenFlagged,
+  flaggedCount,
+  onOpenNotebook,
+  onOpenPaper,
+  resumable,
+  onResume,
+  onDiscardResumable,
+  stock,
+  isOffline,
+  providerLabel
+}: { 
+  onSelect: (c: MondaiConfig) => void, 
+  mistakeCount: number,
+  dueCount: number,
+  onReviewMistakes: () => void,
+  onStartAdaptive: () => void,
+  onStartMockExam: () => void,
+  onOpenSettings: () => void,
+  onOpenDashboard: () => void,
+  onOpenTargets: () => void,
+  onOpenFlagged: () => void,
+  flaggedCount: number,
+  onOpenNotebook: () => void,
+  onOpenPaper: () => void,
+  resumable: ActiveSession | null, // Interrupted session that can be continued
+  onResume: () => void,
+  onDiscardResumable: () => void,
+  stock: Partial<Record<MondaiId, number>>, // Unseen questions in the offline pool
+  isOffline: boolean,
+  providerLabel: string
+}) => {
+  const vocabItems = MONDAI_LIST.filter(m => m.section === "Vocabulary");
+  const grammarItems = MONDAI_LIST.filter(m => m.section === "Grammar");
+  const readingItems = MONDAI_LIST.filter(m => m.section === "Reading");
+  const listeningItems = MONDAI_LIST.filter(m => m.section === "Listening");
+
+  const Section = ({ title, items, color }: { title: string, items: MondaiConfig[], color: string }) => (
+    <div className="mb-8">
+      <h2 className={`text-xl font-bold mb-4 flex items-center ${color}`}>
+        <span className="w-2 h-6 rounded mr-2 bg-current"></span>
+        {title}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {items.map((item) => (
+          <button 
+            key={item.id}
+            onClick={() => onSelect(item)}
+            disabled={isOffline && !stock[item.id]}
+            className="group relative flex flex-col items-start p-5 bg-white border border-stone-200 hover:border-stone-400 rounded-xl transition-all duration-200 shadow-sm hover:shadow-md text-left disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-stone-200 disabled:hover:shadow-sm"
+          >
+            <div className="flex justify-between w-full mb-1">
+              <span className="font-bold text-stone-800 text-lg group-hover:text-indigo-700">{item.label}</span>
+              <span className="text-xs font-mono bg-stone-100 px-2 py-1 rounded text-stone-500 group-hover:bg-indigo-50 group-hover:text-indigo-600">
+                {item.count}問
+              </span>
+            </div>
+            <span className="text-sm text-stone-500 font-medium">{item.subLabel}</span>
+            <span className="text-xs text-stone-400 mt-2 line-clamp-1">{item.description}</span>
+            <span className={`text-xs mt-2 ${stock[item.id] ? 'text-emerald-600' : 'text-stone-300'}`}>
+              在庫 {stock[item.id] ?? 0}問
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-indigo-900 text-white p-8 rounded-2xl shadow-lg mb-8 text-center relative overflow-hidden">
+          <div className="relative z-10">
+            <h1 className="text-3xl font-bold mb-2">JLPT N1 直前対策</h1>
+            <p className="text-indigo-200">Official Exam Structure Practice</p>
+            {isOffline && (
+              <span className="inline-block mt-3 text-xs font-bold px-3 py-1 rounded-full bg-amber-400 text-amber-950">
+                オフライン — 在庫の問題で学習できます
+              </span>
+            )}
+          </div>
+          <button
+            onClick={onOpenSettings}
+            className="absolute top-4 left-4 z-10 p-2 rounded-lg text-indigo-200 hover:text-white hover:bg-indigo-800 transition"
+            title="設定 (Settings)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+          </button>
+          <button
+            onClick={onOpenDashboard}
+            className="absolute top-4 left-14 z-10 p-2 rounded-lg text-indigo-200 hover:text-white hover:bg-indigo-800 transition"
+            title="学習記録 (Progress)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+          </button>
+          <button
+            onClick={onOpenFlagged}
+            className="absolute top-4 left-24 z-10 p-2 rounded-lg text-indigo-200 hover:text-white hover:bg-indigo-800 transition"
+            title="報告した問題 (Flagged)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" /></svg>
+            {flaggedCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-amber-400 text-amber-950 text-[10px] font-bold flex items-center justify-center">
+                {flaggedCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={onOpenNotebook}
+            className="absolute top-4 left-[8.5rem] z-10 p-2 rounded-lg text-indigo-200 hover:text-white hover:bg-indigo-800 transition"
+            title="単語帳 (Notebook)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
+          </button>
+          <button
+            onClick={onOpenPaper}
+            className="absolute top-4 left-44 z-10 p-2 rounded-lg text-indigo-200 hover:text-white hover:bg-indigo-800 transition"
+            title="印刷用問題 (Paper)"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
+          </button>
+          <div className="absolute top-0 right-0 p-4 opacity-10">
+            <svg className="w-32 h-32 text-white" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2L2 7l10 5 10-5-10-5zm0 9l2.5-1.25L12 8.5l-2.5 1.25L12 11zm0 2.5l-5-2.5-5 2.5L12 22l10-8.5-5-2.5-5 2.5z"/></svg>
+          </div>
+        </div>
+
+        {resumable && (
+          <div className="mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4 p-5 rounded-xl border-2 border-amber-300 bg-amber-50">
+            <div>
+              <span className="block font-bold text-amber-900">中断したセッションがあります</span>
+              <span className="text-sm text-amber-800">
+                {resumable.config.label} — {resumable.progress?.answers.filter(a => a !== null).length ?? 0} / {resumable.questions.length}問 回答済み
+              </span>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={onDiscardResumable}
+                className="px-4 py-2 rounded-lg font-bold text-sm bg-white border border-amber-300 text-amber-800 hover:border-amber-500 transition"
+              >
+                破棄する
+              </button>
+              <button
+                onClick={onResume}
+                className="px-4 py-2 rounded-lg font-bold text-sm bg-amber-500 text-white hover:bg-amber-600 transition"
+              >
+                続きから
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Adaptive Session Card */}
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4 flex items-center text-indigo-700">
+            <span className="w-2 h-6 rounded mr-2 bg-current"></span>
+            おすすめ学習 (Study What I Need)
+          </h2>
+          <button
+            onClick={onStartAdaptive}
+            className="w-full flex items-center justify-between p-6 rounded-xl border-2 bg-white border-indigo-200 hover:border-indigo-400 hover:shadow-md transition-all duration-200 shadow-sm"
+          >
+            <div className="flex items-center">
+              <div className="w-12 h-12 rounded-full flex items-center justify-center mr-4 bg-indigo-100 text-indigo-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+              </div>
+              <div className="text-left">
+                <span className="block font-bold text-lg text-indigo-700">
+                  苦手と復習をまとめて
+                </span>
+                <span className="text-sm text-stone-500">
+                  {dueCount > 0 ? `Due reviews + your weakest Mondai` : "New questions from your weakest Mondai"}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center">
+              <span className="text-2xl font-bold mr-2 text-indigo-600">
+                {ADAPTIVE_CONFIG.count}
+              </span>
+              <span className="text-stone-400 text-sm">問</span>
+            </div>
+          </button>
+        </div>
+
+        {/* Mistake Bank Card */}
+        <div className="mb-8">
+           <h2 className="text-xl font-bold mb-4 flex items-center text-rose-700">
+            <span className="w-2 h-6 rounded mr-2 bg-current"></span>
+            弱点克服 (Mistake Bank)
+          </h2>
+          <button 
+            onClick={onReviewMistakes}
+            disabled={dueCount === 0}
+            className={`w-full flex items-center justify-between p-6 rounded-xl border-2 transition-all duration-200 shadow-sm ${
+              dueCount > 0 
+                ? 'bg-white border-rose-200 hover:border-rose-400 hover:shadow-md cursor-pointer' 
+                : 'bg-stone-100 border-stone-200 opacity-70 cursor-not-allowed'
+            }`}
+          >
+            <div className="flex items-center">
+              <div className={`w-12 h-12 rounded-full flex items-center justify-center mr-4 ${dueCount > 0 ? 'bg-rose-100 text-rose-600' : 'bg-stone-200 text-stone-400'}`}>
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+              </div>
+              <div className="text-left">
+                <span className={`block font-bold text-lg ${dueCount > 0 ? 'text-rose-700' : 'text-stone-500'}`}>
+                  今日の復習
+                </span>
+                <span className="text-sm text-stone-500">
+                  {mistakeCount > 0 ? `Due today · ${mistakeCount}問 in the bank` : "Review your incorrect answers"}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center">
+              <span className={`text-2xl font-bold mr-2 ${dueCount > 0 ? 'text-rose-600' : 'text-stone-400'}`}>
+                {dueCount}
+              </span>
+              <span className="text-stone-400 text-sm">問</span>
+            </div>
+          </button>
+        </div>
+
+        {/* Mock Exam Card */}
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4 flex items-center text-stone-700">
+            <span className="w-2 h-6 rounded mr-2 bg-current"></span>
+            模擬試験 (Mock Exam)
+          </h2>
+          <button 
+            onClick={onStartMockExam}
+            className="w-full flex items-center justify-between p-6 rounded-xl border-2 bg-white border-stone-300 hover:border-stone-500 hover:shadow-md transition-all duration-200 shadow-sm"
+          >
+            <div className="flex items-center">
+              <div className="w-12 h-12 rounded-full flex items-center justify-center mr-4 bg-stone-800 text-white">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+              </div>
+              <div className="text-left">
+                <span className="block font-bold text-lg text-stone-800">
+                  言語知識・読解 本番形式
+                </span>
+                <span className="text-sm text-stone-500">All Mondai in official order, {MOCK_EXAM_TIME_LIMIT / 60} minutes</span>
+              </div>
+            </div>
+            <div className="flex items-center">
+              <span className="text-2xl font-bold mr-2 text-stone-700">
+                {MOCK_EXAM_CONFIG.count}
+              </span>
+              <span className="text-stone-400 text-sm">問</span>
+            </div>
+          </button>
+        </div>
+
+        {/* Targeted Practice Card */}
+        <div className="mb-8">
+          <h2 className="text-xl font-bold mb-4 flex items-center text-violet-700">
+            <span className="w-2 h-6 rounded mr-2 bg-current"></span>
+            重点練習 (Targeted Practice)
+          </h2>
+          <button
+            onClick={onOpenTargets}
+            className="w-full flex items-center justify-between p-6 rounded-xl border-2 bg-white border-violet-200 hover:border-violet-400 hover:shadow-md transition-all duration-200 shadow-sm"
+          >
+            <div className="flex items-center">
+              <div className="w-12 h-12 rounded-full flex items-center justify-center mr-4 bg-violet-100 text-violet-600">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+              </div>
+              <div className="text-left">
+                <span className="block font-bold text-lg text-violet-700">
+                  文法・語彙を選んで練習
+                </span>
+                <span className="text-sm text-stone-500">Drill chosen grammar points, words and your own lists</span>
+              </div>
+            </div>
+          </button>
+        </div>
+
+        <Section title="言語知識 (文字・語彙)" items={vocabItems} color="text-indigo-700" />
+        <Section title="言語知識 (文法)" items={grammarItems} color="text-emerald-700" />
+        <Section title="読解 (Reading)" items={readingItems} color="text-amber-700" />
+        <Section title="聴解 (Listening)" items={listeningItems} color="text-sky-700" />
+
+        <div className="text-center text-xs text-stone-400 mt-8">
+          Generated by {providerLabel} | Targets N1 Level (2010-2024 Criteria)
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const Loading = () => (
+  <div className="flex flex-col items-center justify-center min-h-screen bg-stone-50 text-stone-600">
+    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600 mb-4"></div>
+    <p className="animate-pulse font-medium">過去問データベースから抽出中...</p>
+    <p className="text-xs text-stone-400 mt-2">Accessing exam patterns & filtering duplicates...</p>
+  </div>
+);
+
+const ErrorView = ({ onRetry }: { onRetry: () => void }) => (
+  <div className="flex flex-col items-center justify-center min-h-screen bg-stone-50 p-6">
+    <div className="bg-red-50 text-red-800 p-8 rounded-xl max-w-sm text-center border border-red-200 shadow-sm">
+      <h3 className="font-bold text-lg mb-2">生成エラー</h3>
+      <p className="text-sm mb-6">問題の作成に失敗しました。もう一度お試しください。</p>
+      <button 
+        onClick={onRetry}
+        className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition font-bold"
+      >
+        再試行 (Retry)
+      </button>
+    </div>
+  </div>
+);
+
+const SettingsView = ({
+  settings,
+  mistakeCount,
+  onSave,
+  onCancel,
+  onExportBackup,
+  onExportAnki,
+  onImportBackup
+}: {
+  settings: ProviderSettings,
+  mistakeCount: number,
+  onSave: (s: ProviderSettings) => void,
+  onCancel: () => void,
+  onExportBackup: () => void,
+  onExportAnki: (delimiter: AnkiDelimiter) => void,
+  onImportBackup: (backup: AppBackup, mode: ImportMode) => void
+}) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const [packError, setPackError] = useState<string | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("merge");
+  const [importStatus, setImportStatus] = useState<{ ok: boolean, message: string } | null>(null);
+
+  const update = (patch: Partial<ProviderSettings>) => setDraft(d => ({ ...d, ...patch }));
+
+  const handlePackFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const pack = parseQuestionPack(await file.text(), file.name);
+      update({ questionPack: pack });
+      setPackError(null);
+    } catch (err) {
+      setPackError(err instanceof Error ? err.message : "Invalid question pack");
+    }
+  };
+
+  const handleBackupFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const backup = parseBackup(await file.text());
+      if (importMode === "replace" && !window.confirm("現在の学習データをすべて置き換えます。よろしいですか？")) return;
+      onImportBackup(backup, importMode);
+      if (importMode === "replace") {
+        setDraft(d => ({ ...backup.settings, localApiKey: d.localApiKey, ttsApiKey: d.ttsApiKey }));
+      }
+      setImportStatus({
+        ok: true,
+        message: `${backup.mistakes.length}問の復習カードと${backup.history.length}回分の記録を読み込みました。`,
+      });
+    } catch (err) {
+      setImportStatus({ ok: false, message: err instanceof Error ? err.message : "Invalid backup file" });
+    }
+  };
+
+  const inputStyle = "w-full px-3 py-2 rounded-lg border border-stone-200 text-sm font-mono focus:border-indigo-400 focus:outline-none";
+  const dataButtonStyle = "px-4 py-2 rounded-lg text-sm font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-2xl font-bold text-stone-800 mb-6">設定 (Settings)</h1>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6 mb-6">
+          <h2 className="font-bold text-stone-700 mb-4">問題の生成元 (Question Source)</h2>
+          <div className="space-y-2 mb-6">
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => (
+              <label key={id} className={`flex items-center p-3 rounded-lg border-2 cursor-pointer transition ${
+                draft.provider === id ? 'border-indigo-600 bg-indigo-50' : 'border-stone-200 hover:border-stone-400'
+              }`}>
+                <input
+                  type="radio"
+                  name="provider"
+                  className="mr-3"
+                  checked={draft.provider === id}
+                  onChange={() => update({ provider: id })}
+                />
+                <span className="font-medium text-stone-700">{PROVIDER_LABELS[id]}</span>
+              </label>
+            ))}
+          </div>
+
+          {draft.provider === "gemini" && (
+            <p className="text-xs text-stone-500">The API key and model are set on the question server (see README).</p>
+          )}
+
+          {draft.provider === "openai_compatible" && (
+            <div className="space-y-3">
+              <label className="block">
+                <span className="block text-xs text-stone-500 mb-1">Endpoint (base URL)</span>
+                <input className={inputStyle} value={draft.localEndpoint} onChange={e => update({ localEndpoint: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-stone-500 mb-1">Model</span>
+                <input className={inputStyle} value={draft.localModel} onChange={e => update({ localModel: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-stone-500 mb-1">API Key (optional)</span>
+                <input type="password" className={inputStyle} value={draft.localApiKey} onChange={e => update({ localApiKey: e.target.value })} />
+              </label>
+            </div>
+          )}
+
+          {draft.provider === "question_pack" && (
+            <div>
+              <input type="file" accept="application/json,.json" onChange={handlePackFile} className="text-sm mb-2" />
+              {draft.questionPack ? (
+                <p className="text-sm text-stone-600">
+                  {draft.questionPack.name}: {draft.questionPack.questions.length}問
+                </p>
+              ) : (
+                <p className="text-sm text-stone-400">No question pack loaded.</p>
+              )}
+              {packError && <p className="text-sm text-red-600 mt-1">{packError}</p>}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6 mb-6">
+          <h2 className="font-bold text-stone-700 mb-4">聴解の音声 (Speech)</h2>
+          <div className="space-y-2 mb-6">
+            {(Object.keys(SPEECH_BACKEND_LABELS) as SpeechBackendId[]).map(id => (
+              <label key={id} className={`flex items-center p-3 rounded-lg border-2 cursor-pointer transition ${
+                draft.speechBackend === id ? 'border-indigo-600 bg-indigo-50' : 'border-stone-200 hover:border-stone-400'
+              }`}>
+                <input
+                  type="radio"
+                  name="speechBackend"
+                  className="mr-3"
+                  checked={draft.speechBackend === id}
+                  onChange={() => update({ speechBackend: id })}
+                />
+                <span className="font-medium text-stone-700">{SPEECH_BACKEND_LABELS[id]}</span>
+              </label>
+            ))}
+          </div>
+
+          {draft.speechBackend === "openai_tts" && (
+            <div className="space-y-3">
+              <label className="block">
+                <span className="block text-xs text-stone-500 mb-1">Endpoint (base URL)</span>
+                <input className={inputStyle} value={draft.ttsEndpoint} onChange={e => update({ ttsEndpoint: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-stone-500 mb-1">Model</span>
+                <input className={inputStyle} value={draft.ttsModel} onChange={e => update({ ttsModel: e.target.value })} />
+              </label>
+              <label className="block">
+                <span className="block text-xs text-stone-500 mb-1">API Key (optional)</span>
+                <input type="password" className={inputStyle} value={draft.ttsApiKey} onChange={e => update({ ttsApiKey: e.target.value })} />
+              </label>
+              <div className="grid grid-cols-3 gap-3">
+                {VOICES.map(voice => (
+                  <label key={voice} className="block">
+                    <span className="block text-xs text-stone-500 mb-1">Voice ({voice})</span>
+                    <input
+                      className={inputStyle}
+                      value={draft.ttsVoices[voice]}
+                      onChange={e => update({ ttsVoices: { ...draft.ttsVoices, [voice]: e.target.value } })}
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6 mb-6">
+          <h2 className="font-bold text-stone-700 mb-4">オフライン用ストック (Offline Pool)</h2>
+          <label className="block">
+            <span className="block text-xs text-stone-500 mb-1">Questions kept per Mondai (0 = off)</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              className={inputStyle}
+              value={draft.poolSize}
+              onChange={e => update({ poolSize: Math.max(0, Math.min(100, Number(e.target.value) || 0)) })}
+            />
+          </label>
+          <p className="text-xs text-stone-400 mt-2">Filled in the background while online and served first, so practice keeps working offline.</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6 mb-6">
+          <h2 className="font-bold text-stone-700 mb-4">学習データ (Data)</h2>
+          <div className="flex flex-wrap gap-2 mb-6">
+            <button onClick={onExportBackup} className={dataButtonStyle}>
+              バックアップを書き出す (JSON)
+            </button>
+            <button onClick={() => onExportAnki(",")} disabled={mistakeCount === 0} className={dataButtonStyle}>
+              Anki用 CSV
+            </button>
+            <button onClick={() => onExportAnki("\t")} disabled={mistakeCount === 0} className={dataButtonStyle}>
+              Anki用 TSV
+            </button>
+          </div>
+
+          <div className="flex gap-4 mb-3 text-sm text-stone-700">
+            {(["merge", "replace"] as ImportMode[]).map(mode => (
+              <label key={mode} className="flex items-center cursor-pointer">
+                <input
+                  type="radio"
+                  name="importMode"
+                  className="mr-2"
+                  checked={importMode === mode}
+                  onChange={() => setImportMode(mode)}
+                />
+                {mode === "merge" ? "統合 (Merge)" : "置き換え (Replace)"}
+              </label>
+            ))}
+          </div>
+          <input type="file" accept="application/json,.json" onChange={handleBackupFile} className="text-sm" />
+          {importStatus && (
+            <p className={`text-sm mt-2 ${importStatus.ok ? 'text-emerald-600' : 'text-red-600'}`}>{importStatus.message}</p>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-xl font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+          >
+            キャンセル
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={draft.provider === "question_pack" && !draft.questionPack}
+            className="flex-1 py-3 rounded-xl font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition shadow-sm disabled:bg-stone-200 disabled:text-stone-400 disabled:cursor-not-allowed"
+          >
+            保存する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Ruby from the bundled dictionary; kanji it does not know are left bare. Each word carries its
+// entry id so tapping it opens the entry even when its ending is inflected.
+const Furigana = ({ text, show }: { text: string, show: boolean }) => {
+  const tokens = useMemo(() => (show ? toFurigana(text) : null), [text, show]);
+  if (!tokens) return <>{text}</>;
+  return (
+    <>
+      {tokens.map((token, i) => token.parts ? (
+        <span key={i} data-entry={token.entry?.id}>
+          {token.parts.map((part, j) => part.reading
+            ? <ruby key={j}>{part.text}<rt className="text-[0.55em] font-normal text-stone-500">{part.reading}</rt></ruby>
+            : <React.Fragment key={j}>{part.text}</React.Fragment>)}
+        </span>
+      ) : (
+        <React.Fragment key={i}>{token.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
+
+// Blanks are drawn with borders, so each carries a spoken label for screen readers
+const Blank = ({ isStar, isSlot }: { isStar: boolean, isSlot: boolean }) => {
+  if (!isSlot) return <span className="mx-1"><span aria-hidden="true">（　　　）</span><span className="sr-only">空欄</span></span>;
+  return isStar
+    ? <span className="border-b border-stone-800 font-bold inline-block w-8 mx-1 text-center"><span aria-hidden="true">★</span><span className="sr-only">星印の空欄</span></span>
+    : <span className="border-b border-stone-400 inline-block w-8 mx-1"><span className="sr-only">空欄</span></span>;
+};
+
+// Renders the stem, cutting it at blank offsets and around the underlined target.
+// `renderBlank` lets interactive modes put their own slot in place of a blank.
+const Stem = ({ content, renderBlank, furigana = false }: { content: QuestionContent, renderBlank?: (slot: number) => React.ReactNode, furigana?: boolean }) => {
+  const { stem, target, blanks, starSlot } = content;
+  const cuts = new Set([0, stem.length, ...blanks]);
+  if (target) {
+    cuts.add(target.start);
+    cuts.add(target.start + target.length);
+  }
+  const points = [...cuts].sort((a, b) => a - b);
+
+  const nodes: React.ReactNode[] = [];
+  points.forEach((point, i) => {
+    blanks.forEach((offset, slot) => {
+      if (offset === point) {
+        nodes.push(
+          <React.Fragment key={`blank-${slot}`}>
+            {renderBlank ? renderBlank(slot) : <Blank isSlot={starSlot !== undefined} isStar={slot === starSlot} />}
+          </React.Fragment>
+        );
+      }
+    });
+    const next = points[i + 1];
+    if (next === undefined || next === point) return;
+    const text = stem.slice(point, next);
+    const isTarget = target && point >= target.start && next <= target.start + target.length;
+    nodes.push(isTarget
+      ? (
+        <span key={`text-${point}`} className="border-b-2 border-stone-800 font-bold px-1">
+          <span className="sr-only">下線部「</span>
+          <Furigana text={text} show={furigana} />
+          <span className="sr-only">」</span>
+        </span>
+      )
+      : <React.Fragment key={`text-${point}`}><Furigana text={text} show={furigana} /></React.Fragment>);
+  });
+  return <>{nodes}</>;
+};
+
+const passageStyle = "bg-stone-100 p-4 rounded-lg text-xs md:text-sm leading-loose font-serif font-normal text-stone-700";
+
+const ContentTableView = ({ table, furigana = false }: { table: ContentTable, furigana?: boolean }) => (
+  <div className="overflow-x-auto mb-4">
+    <table className="w-full text-xs md:text-sm font-normal text-stone-700 border border-stone-300 whitespace-normal">
+      {table.caption && <caption className="font-bold text-stone-700 mb-2">{table.caption}</caption>}
+      <thead className="bg-stone-100">
+        <tr>
+          {table.headers.map((h, i) => <th key={i} className="border border-stone-300 px-2 py-1 text-left">{h}</th>)}
+        </tr>
+      </thead>
+      <tbody>
+        {table.rows.map((row, r) => (
+          <tr key={r}>
+            {row.map((cell, c) => <td key={c} className="border border-stone-300 px-2 py-1 align-top"><Furigana text={cell} show={furigana} /></td>)}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Passages shared by several questions scroll inside a fixed-height box, so the stem and options
+// stay in view; keying the box by group keeps the scroll position while stepping through its questions.
+// Passages and table the stem is asked about; the paper booklet prints them once per group
+const QuestionMaterial = ({ content, groupId, furigana = false }: { content: QuestionContent, groupId?: string, furigana?: boolean }) => {
+  const scrollStyle = groupId ? " max-h-[45vh] overflow-y-auto" : "";
+  return (
+    <>
+      {content.passageB ? (
+        // 統合理解: texts A and B side by side
+        <div key={groupId} className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
+          {[content.passage, content.passageB].map((text, i) => (
+            <div key={i} className={passageStyle + scrollStyle}>
+              <span className="block font-sans font-bold text-stone-500 mb-1">{i === 0 ? "A" : "B"}</span>
+              <Furigana text={text ?? ""} show={furigana} />
+            </div>
+          ))}
+        </div>
+      ) : content.passage && (
+        <div key={groupId} className={`${passageStyle} mb-4${scrollStyle}`}>
+          <Furigana text={content.passage} show={furigana} />
+        </div>
+      )}
+      {content.table && <ContentTableView table={content.table} furigana={furigana} />}
+    </>
+  );
+};
+
+const QuestionBody = ({ content, groupId, furigana = false }: { content: QuestionContent, groupId?: string, furigana?: boolean }) => {
+  const hasMaterial = !!(content.passage || content.table);
+  return (
+    <>
+      <QuestionMaterial content={content} groupId={groupId} furigana={furigana} />
+      <div className={hasMaterial ? "text-lg" : ""}>
+        <Stem content={content} furigana={furigana} />
+      </div>
+    </>
+  );
+};
+
+// Shown above questions that share a passage
+const GroupIndicator = ({ questions, index }: { questions: Question[], index: number }) => {
+  const group = groupPosition(questions, index);
+  if (group.size <= 1) return null;
+  return (
+    <div className="bg-amber-50 px-6 py-2 border-b border-amber-100 text-xs text-amber-700 flex items-center">
+      <span className="w-1.5 h-1.5 rounded-full bg-amber-400 mr-2"></span>
+      この文章についての問題 {group.index + 1} / {group.size}
+    </div>
+  );
+};
+
+// 並べ替え in full: fragments are tapped or dragged into the four blanks of the stem
+const OrderBuilder = ({
+  question,
+  slots,
+  isChecked,
+  onPlace,
+  onRemove
+}: {
+  question: Question,
+  slots: (number | null)[],
+  isChecked: boolean,
+  onPlace: (option: number, slot?: number) => void,
+  onRemove: (slot: number) => void
+}) => {
+  const { content, options, correctOrder = [] } = question;
+  const pool = options.map((_, idx) => idx).filter(idx => !slots.includes(idx));
+  const wrongSlots = slots.filter((option, slot) => option !== correctOrder[slot]).length;
+
+  const renderSlot = (slot: number) => {
+    const option = slots[slot];
+    const isStar = slot === content.starSlot;
+    let style = "inline-flex items-center justify-center min-w-[4rem] min-h-[2.25rem] mx-1 px-2 align-middle rounded-lg border-2 text-base transition ";
+    if (isChecked) {
+      style += option === correctOrder[slot] ? "bg-green-50 border-green-500 text-green-900" : "bg-red-50 border-red-500 text-red-900";
+    } else {
+      style += option === null ? "border-dashed border-stone-300 text-stone-400" : "bg-indigo-50 border-indigo-600 text-indigo-900 cursor-pointer";
+    }
+    const label = [
+      `空欄${slot + 1}${isStar ? "（星印）" : ""}`,
+      option !== null ? options[option] : "未入力",
+      ...(isChecked ? [option === correctOrder[slot] ? "正しい" : "間違い"] : []),
+    ].join("、");
+    // Empty slots must stay drop targets, so they are aria-disabled rather than disabled
+    return (
+      <button
+        type="button"
+        className={style}
+        aria-label={label}
+        aria-disabled={option === null || isChecked}
+        onClick={() => option !== null && !isChecked && onRemove(slot)}
+        onDragOver={e => e.preventDefault()}
+        onDrop={e => {
+          e.preventDefault();
+          const dragged = Number(e.dataTransfer.getData("text/plain"));
+          if (!isChecked && Number.isInteger(dragged)) onPlace(dragged, slot);
+        }}
+      >
+        {isStar && <span className="font-bold mr-1 text-stone-800">★</span>}
+        {option !== null ? options[option] : ""}
+      </button>
+    );
+  };
+
+  return (
+    <div>
+      <div className="leading-loose">
+        <Stem content={content} renderBlank={renderSlot} />
+      </div>
+
+      {!isChecked ? (
+        <div className="flex flex-wrap gap-2 mt-6 min-h-[3rem]" role="group" aria-label="並べる語句">
+          {pool.map(idx => (
+            <button
+              key={idx}
+              draggable
+              onDragStart={e => e.dataTransfer.setData("text/plain", String(idx))}
+              onClick={() => onPlace(idx)}
+              className="px-4 py-2 rounded-lg border-2 bg-white border-stone-200 text-stone-700 text-base font-medium hover:border-indigo-400 hover:bg-stone-50 transition cursor-grab"
+            >
+              <span className="text-xs text-stone-400 mr-1.5" aria-hidden="true">{idx + 1}</span>
+              {options[idx]}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-6 text-sm font-normal text-stone-600">
+          <span className="font-bold mr-2">正しい順番:</span>
+          {correctOrder.map(idx => options[idx]).join(" → ")}
+          <span className={`ml-2 text-xs px-2 py-0.5 rounded ${wrongSlots === 0 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+            {wrongSlots === 0 ? "全文正解" : `${wrongSlots}か所の間違い`}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Exam mode allows a single play before answering; practice mode and checked questions allow replays.
+// A play made in exam mode stays locked until the answer is checked, even if the mode is switched.
+const ListeningPlayer = ({
+  question,
+  speech,
+  playOnce,
+  isChecked
+}: {
+  question: Question,
+  speech: SpeechBackend,
+  playOnce: boolean,
+  isChecked: boolean
+}) => {
+  const [plays, setPlays] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playedInExam, setPlayedInExam] = useState(false);
+  const isExamPlay = (playOnce || playedInExam) && !isChecked;
+
+  // Never keep talking over the next screen
+  useEffect(() => () => speech.stop(), [speech]);
+
+  const play = async () => {
+    setIsPlaying(true);
+    setPlays(p => p + 1);
+    if (isExamPlay) setPlayedInExam(true);
+    try {
+      await speech.speak(buildListeningSequence(question));
+    } catch (e) {
+      console.error("Playback failed", e);
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const isLocked = isExamPlay && plays > 0 && !isPlaying;
+
+  return (
+    <div className="flex items-center gap-4 p-4 mb-4 bg-stone-800 text-white rounded-xl font-sans text-base font-normal">
+      <button
+        onClick={isPlaying ? speech.stop : play}
+        disabled={isLocked}
+        aria-label={isPlaying ? "停止" : "再生"}
+        className="w-12 h-12 rounded-full bg-white text-stone-800 flex items-center justify-center shrink-0 hover:bg-stone-200 transition disabled:opacity-30 disabled:cursor-not-allowed"
+      >
+        {isPlaying ? (
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z" /></svg>
+        ) : (
+          <svg className="w-5 h-5 ml-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+        )}
+      </button>
+      <div>
+        <span className="block font-bold">{isPlaying ? "再生中…" : plays === 0 ? "音声を再生する" : isLocked ? "再生済み" : "もう一度聞く"}</span>
+        <span className="text-xs text-stone-400">
+          {isExamPlay ? "本番モード: 再生は1回のみ" : `練習モード: 再生回数 ${plays}`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const Transcript = ({ lines }: { lines: ScriptLine[] }) => (
+  <div className="mt-4 bg-stone-50 rounded-lg p-4 text-sm leading-relaxed">
+    <h4 className="text-xs text-stone-400 uppercase tracking-wide mb-2">スクリプト (Transcript)</h4>
+    {lines.map((line, i) => (
+      <p key={i} className="mb-1 text-stone-700">
+        <span className={`font-bold mr-2 ${line.voice === 'female' ? 'text-rose-600' : line.voice === 'male' ? 'text-sky-700' : 'text-stone-500'}`}>
+          {line.speaker}
+        </span>
+        {line.text}
+      </p>
+    ))}
+  </div>
+);
+
+const TUTOR_SUGGESTIONS = [
+  "ほかの選択肢はなぜ間違いですか？",
+  "この表現を使った例文をもっと見せてください。",
+  "似ている表現との違いを教えてください。",
+];
+
+// Follow-up chat on a checked question. Notes can only be kept on questions in the mistake bank.
+const TutorChat = ({
+  question,
+  selectedOption,
+  canSaveNotes,
+  onSaveNote
+}: {
+  question: Question,
+  selectedOption: number | null,
+  canSaveNotes: boolean,
+  onSaveNote: (question: Question, note: TutorNote) => boolean // false when the card has left the bank
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [messages, setMessages] = useState<TutorMessage[]>([]);
+  const [input, setInput] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<Set<number>>(new Set());
+  const savedNotes = 'notes' in question ? (question as ReviewCard).notes ?? [] : [];
+
+  const send = async (text: string) => {
+    const message = text.trim();
+    if (!message || isSending) return;
+    const history = messages;
+    setMessages([...history, { role: "user", text: message }, { role: "model", text: "" }]);
+    setInput("");
+    setError(null);
+    setIsSending(true);
+    try {
+      const showReply = (reply: string) =>
+        setMessages(prev => [...prev.slice(0, -1), { role: "model", text: reply }]);
+      showReply(await askTutor(question, selectedOption, history, message, showReply));
+    } catch (e) {
+      console.error("Tutor request failed", e);
+      setError(e instanceof Error ? e.message : "Tutor request failed");
+      setMessages(history);
+      setInput(message);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const save = (index: number) => {
+    if (!onSaveNote(question, { prompt: messages[index - 1]?.text ?? "", answer: messages[index].text, savedAt: Date.now() })) {
+      setError("この問題は習得済みになり復習リストから外れたため、メモを保存できませんでした。");
+      return;
+    }
+    setSaved(prev => new Set(prev).add(index));
+  };
+
+  return (
+    <div className="mt-4 border-t border-stone-100 pt-4">
+      {savedNotes.length > 0 && (
+        <div className="mb-4 space-y-2">
+          <h4 className="text-xs text-stone-400 uppercase tracking-wide">メモ (Notes)</h4>
+          {savedNotes.map((note, i) => (
+            <div key={i} className="bg-amber-50 border border-amber-100 rounded-lg p-3 text-sm">
+              <p className="font-bold text-amber-900 mb-1">{note.prompt}</p>
+              <p className="text-stone-700 whitespace-pre-wrap">{note.answer}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isOpen ? (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="text-sm font-bold text-indigo-600 hover:text-indigo-800 flex items-center"
+        >
+          <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M21 12c0 4.418-4.03 8-9 8a9.86 9.86 0 01-4-.83L3 20l1.4-3.72A7.96 7.96 0 013 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" /></svg>
+          先生に質問する (Ask the tutor)
+        </button>
+      ) : (
+        <div>
+          <h4 className="text-xs text-stone-400 uppercase tracking-wide mb-2">先生に質問 (Tutor)</h4>
+          <div className="space-y-3 mb-3">
+            {messages.map((m, i) => (
+              <div key={i} className={m.role === "user" ? "text-right" : ""}>
+                <div className={`inline-block text-left text-sm rounded-lg px-3 py-2 whitespace-pre-wrap max-w-[90%] ${m.role === "user" ? 'bg-indigo-600 text-white' : 'bg-stone-100 text-stone-700'}`}>
+                  {m.text || "…"}
+                </div>
+                {m.role === "model" && m.text && !(isSending && i === messages.length - 1) && canSaveNotes && (
+                  <button
+                    onClick={() => save(i)}
+                    disabled={saved.has(i)}
+                    className="block mt-1 text-xs text-amber-700 hover:text-amber-900 disabled:text-stone-400"
+                  >
+                    {saved.has(i) ? "メモに保存済み" : "メモに保存"}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {messages.length === 0 && (
+            <div className="flex flex-wrap gap-2 mb-3">
+              {TUTOR_SUGGESTIONS.map(text => (
+                <button
+                  key={text}
+                  onClick={() => send(text)}
+                  className="text-xs px-3 py-1 rounded-full border border-stone-200 text-stone-600 hover:border-indigo-400 hover:text-indigo-600 transition"
+                >
+                  {text}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+
+          <form
+            onSubmit={e => { e.preventDefault(); send(input); }}
+            className="flex gap-2"
+          >
+            <input
+              value={input}
+              onChange={e => setInput(e.target.value)}
+              disabled={isSending}
+              placeholder="質問を入力…"
+              className="flex-1 border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-indigo-400"
+            />
+            <button
+              type="submit"
+              disabled={isSending || !input.trim()}
+              className="px-4 py-2 bg-indigo-600 text-white text-sm font-bold rounded-lg hover:bg-indigo-700 transition disabled:opacity-40"
+            >
+              送信
+            </button>
+          </form>
+          {!canSaveNotes && (
+            <p className="text-xs text-stone-400 mt-2">正解した問題は復習リストにないため、メモは保存できません。</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Tapping a word inside `containerRef`, or selecting text there, opens its entry in the bundled dictionary.
+// `context` is the plain text of the area, used to pick the example sentence for the notebook.
+const WordLookup = ({
+  containerRef,
+  enabled,
+  context,
+  notebook,
+  onSaveWord
+}: {
+  containerRef: React.RefObject<HTMLElement | null>, // Clicks anywhere inside open the popup
+  enabled: boolean,
+  context: string,
+  notebook: NotebookWord[],
+  onSaveWord: (entry: DictionaryEntry, example?: string) => void
+}) => {
+  const [popup, setPopup] = useState<{ match: DictionaryMatch, x: number, y: number } | null>(null);
+  const popupRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setPopup(null), [context, enabled]);
+
+  useEffect(() => {
+    if (!popup) return;
+    const close = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setPopup(null);
+    };
+    window.addEventListener("keydown", close);
+    return () => window.removeEventListener("keydown", close);
+  }, [popup]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !enabled) return;
+    const handleClick = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (popupRef.current?.contains(target) || target.closest("button, input, textarea, select, a")) return;
+      const selection = window.getSelection();
+      const word = target.closest<HTMLElement>("[data-entry]");
+      let match: DictionaryMatch | null = null;
+      if (selection && !selection.isCollapsed && container.contains(selection.anchorNode)) {
+        match = lookupWord(textWithoutRuby(selection.getRangeAt(0).cloneContents()));
+      } else if (word) {
+        const entry = DICTIONARY[Number(word.dataset.entry)];
+        match = entry ? { surface: textWithoutRuby(word.cloneNode(true) as Element), entries: [entry] } : null;
+      } else {
+        match = lookupWord(textAtPoint(e.clientX, e.clientY));
+      }
+      setPopup(match ? { match, x: e.clientX, y: e.clientY } : null);
+    };
+    container.addEventListener("click", handleClick);
+    return () => container.removeEventListener("click", handleClick);
+  }, [containerRef, enabled]);
+
+  const saved = new Set(notebook.map(w => w.id));
+  const example = popup ? sentenceAround(context, popup.match.surface) : undefined;
+
+  if (!popup) return null;
+  return (
+    <div
+      ref={popupRef}
+      className="fixed z-50 w-72 max-w-[90vw] bg-white rounded-xl shadow-xl border border-stone-200 p-4 text-left text-sm font-sans font-normal whitespace-normal text-stone-700"
+      style={{
+        left: Math.max(8, Math.min(popup.x, window.innerWidth - 296)),
+        top: popup.y > window.innerHeight - 240 ? popup.y - 232 : popup.y + 16,
+      }}
+    >
+      <div className="flex justify-between items-start mb-2">
+        <span className="text-xs text-stone-400">辞書 (JMdict)</span>
+        <button onClick={() => setPopup(null)} className="text-stone-400 hover:text-stone-600" title="閉じる">✕</button>
+      </div>
+      <div className="space-y-3 max-h-48 overflow-y-auto">
+        {popup.match.entries.slice(0, 3).map(entry => {
+          const isSaved = saved.has(notebookWord(entry).id);
+          return (
+            <div key={entry.id}>
+              <div className="flex items-baseline gap-2">
+                <span className="text-lg font-bold text-stone-800">{entry.kanji[0] ?? entry.readings[0]}</span>
+                {entry.kanji.length > 0 && <span className="text-stone-500">{entry.readings.join("・")}</span>}
+              </div>
+              <p className="text-stone-600 mb-2">{entry.glosses.join("; ")}</p>
+              <button
+                onClick={() => onSaveWord(entry, example)}
+                disabled={isSaved}
+                className="text-xs font-bold px-3 py-1 rounded-full border border-indigo-200 text-indigo-600 hover:bg-indigo-50 transition disabled:border-stone-200 disabled:text-stone-400 disabled:hover:bg-white"
+              >
+                {isSaved ? "単語帳に保存済み" : "単語帳に保存"}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const Quiz = ({ 
+  questions, 
+  config,
+  speech,
+  isStreaming = false,
+  onFinish,
+  onAnswerReport,
+  onSaveNote,
+  onFlag,
+  initialProgress,
+  onProgress,
+  furigana,
+  onToggleFurigana,
+  notebook,
+  onSaveWord
+}: { 
+  questions: Question[], 
+  config: MondaiConfig,
+  speech: SpeechBackend,
+  isStreaming?: boolean, // More questions are still arriving; `config.count` is the planned total
+  onFinish: (score: number, total: number, timeSpent: number, breakdown: MondaiResult[], answerLog: AnswerRecord[]) => void,
+  onAnswerReport: (question: Question, isCorrect: boolean) => void,
+  onSaveNote: (question: Question, note: TutorNote) => boolean,
+  onFlag: (question: Question, reason: FlagReason, comment: string) => void,
+  initialProgress?: QuizProgress | null, // Where a resumed session left off
+  onProgress: (progress: QuizProgress) => void,
+  furigana: boolean,
+  onToggleFurigana: () => void,
+  notebook: NotebookWord[],
+  onSaveWord: (entry: DictionaryEntry, example?: string) => void
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(initialProgress?.currentIndex ?? 0);
+  const [selectedOption, setSelectedOption] = useState<number | null>(initialProgress?.selectedOption ?? null);
+  const questionStartRef = useRef(Date.now());
+  const timesRef = useRef<number[]>(initialProgress?.times ?? questions.map(() => 0));
+  const [answers, setAnswers] = useState<(number | null)[]>(() => initialProgress?.answers ?? questions.map(() => null));
+  const [isChecked, setIsChecked] = useState(initialProgress?.isChecked ?? false);
+  const [score, setScore] = useState(initialProgress?.score ?? 0);
+  const [seconds, setSeconds] = useState(initialProgress?.seconds ?? 0);
+  const [buildFullOrder, setBuildFullOrder] = useState(true);
+  const [playOnce, setPlayOnce] = useState(true);
+  const [slots, setSlots] = useState<(number | null)[]>(initialProgress?.slots ?? []);
+  const [flagged, setFlagged] = useState<Set<number>>(() => new Set(initialProgress?.flagged)); // Indices reported as broken
+  const [isFlagging, setIsFlagging] = useState(false);
+  const [flagReason, setFlagReason] = useState<FlagReason>("wrong_answer");
+  const [flagComment, setFlagComment] = useState("");
+
+  // Timer logic
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setSeconds(s => s + 1);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The timer ticks every second, so this also keeps the elapsed time current
+  useEffect(() => {
+    onProgress({
+      currentIndex,
+      answers,
+      times: [...timesRef.current],
+      score,
+      seconds,
+      flagged: [...flagged],
+      isChecked,
+      selectedOption,
+      slots,
+    });
+  }, [currentIndex, answers, score, seconds, flagged, isChecked, selectedOption, slots]);
+
+  // Handle auto-scroll to explanation when checking
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (isChecked) {
         bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
     }
   }, [isChecked]);
 
+  // Focus moves to each new question so screen readers start reading it
+  const questionRef = useRef<HTMLDivElement>(null);
+  const lookupRef = useRef<HTMLDivElement>(null);
+  const optionRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const flagPanelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    questionRef.current?.focus();
+  }, [currentIndex]);
+
+  useEffect(() => {
+    if (isFlagging) flagPanelRef.current?.querySelector("input")?.focus();
+  }, [isFlagging]);
+
+  // The listener reads the handler through a ref, so it always sees the current question and answer
+  const shortcutRef = useRef<((e: KeyboardEvent) => void) | null>(null);
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current?.(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Answers are indexed by position; questions still streaming in have none yet.
+  // Reported questions are left out of the score, the breakdown and the history.
+  const finish = () => {
+    const kept = questions.map((_, i) => i).filter(i => !flagged.has(i));
+    const keptQuestions = kept.map(i => questions[i]);
+    const keptAnswers = kept.map(i => answers[i] ?? null);
+    const keptTimes = kept.map(i => timesRef.current[i] ?? 0);
+    onFinish(score, keptQuestions.length, seconds, buildBreakdown(keptQuestions, keptAnswers), buildAnswerLog(keptQuestions, keptAnswers, keptTimes));
+  };
+
+  // The stream ended short while the learner was waiting on the placeholder
+  const isWaiting = currentIndex >= questions.length;
+  useEffect(() => {
+    if (isWaiting && !isStreaming && questions.length > 0) finish();
+  }, [isWaiting, isStreaming]);
+
+  const currentQ = questions[currentIndex];
+  if (!currentQ) {
+    shortcutRef.current = null;
+    return isStreaming ? (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-stone-50 font-sans">
+        <div className="w-10 h-10 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin mb-4"></div>
+        <p className="text-stone-500">次の問題を準備中… ({currentIndex + 1} / {config.count})</p>
+      </div>
+    ) : (
+      // Handle case where questions might be empty due to aggressive filtering (edge case)
+      <div className="p-8 text-center">No questions available. Please return to menu.</div>
+    );
+  }
+
+  const total = isStreaming ? Math.max(config.count, questions.length) : questions.length;
+  const isLastQuestion = currentIndex === questions.length - 1 && !isStreaming;
+  const canBuildOrder = !!currentQ.correctOrder && currentQ.content.starSlot !== undefined;
+  const isOrderMode = canBuildOrder && buildFullOrder;
+  const isListening = !!currentQ.content.script;
+  // 概要理解 / 即時応答: nothing is printed until the answer is checked
+  const isHiddenUntilChecked = isListening && !!findMondai(currentQ)?.optionsSpoken && !isChecked;
+  // Readings and the dictionary would give away 漢字読み and the vocabulary Mondai, so both wait for the check
+  const showFurigana = furigana && isChecked;
+  const lookupContext = [contentToText(currentQ.content), ...currentQ.options, currentQ.explanation].join("\n");
+
   const handleOptionClick = (index: number) => {
     if (isChecked) return;
     setSelectedOption(index);
   };
 
+  // The ★ slot is what gets scored, so it becomes the selected option once every slot is filled
+  const updateSlots = (next: (number | null)[]) => {
+    setSlots(next);
+    const isComplete = next.length === currentQ.content.blanks.length && next.every(s => s !== null);
+    setSelectedOption(isComplete ? next[currentQ.content.starSlot ?? 0] : null);
+  };
+
+  const handlePlaceFragment = (option: number, slot?: number) => {
+    if (isChecked) return;
+    const next = currentQ.content.blanks.map((_, i) => (slots[i] === option ? null : slots[i] ?? null));
+    const target = slot ?? next.indexOf(null);
+    if (target === -1) return;
+    next[target] = option;
+    updateSlots(next);
+  };
+
+  const handleRemoveFragment = (slot: number) => {
+    if (isChecked) return;
+    updateSlots(slots.map((s, i) => (i === slot ? null : s)));
+  };
+
+  const handleToggleOrderMode = () => {
+    setBuildFullOrder(b => !b);
+    setSlots([]);
+    setSelectedOption(null);
+  };
+
   const handleCheck = () => {
     if (selectedOption === null) return;
     
     const isCorrect = selectedOption === currentQ.correctAnswerIndex;
     setIsChecked(true);
+    setAnswers(prev => {
+      const next = [...prev];
+      next[currentIndex] = selectedOption;
+      return next;
+    });
+    timesRef.current[currentIndex] = (Date.now() - questionStartRef.current) / 1000;
     
     if (isCorrect) {
       setScore(s => s + 1);
@@ -399,19 +3221,81 @@ const Quiz = ({
   };
 
   const handleNext = () => {
+    setIsFlagging(false);
     if (!isLastQuestion) {
       setCurrentIndex(prev => prev + 1);
       setSelectedOption(null);
+      setSlots([]);
       setIsChecked(false);
+      questionStartRef.current = Date.now();
     } else {
-      onFinish(score + (selectedOption === currentQ.correctAnswerIndex ? 0 : 0), questions.length, seconds); 
+      finish();
+    }
+  };
+
+  const isFlagged = flagged.has(currentIndex);
+
+  // A point already scored on the item is taken back; the App pulls it out of both banks
+  const handleFlag = () => {
+    if (isChecked && answers[currentIndex] === currentQ.correctAnswerIndex) setScore(s => s - 1);
+    setFlagged(prev => new Set(prev).add(currentIndex));
+    onFlag(currentQ, flagReason, flagComment.trim());
+    setIsFlagging(false);
+    setFlagComment("");
+  };
+
+  // Arrow keys move the choice within the radio group, as they do for native radio buttons
+  const handleOptionKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const step = e.key === "ArrowDown" || e.key === "ArrowRight" ? 1 : e.key === "ArrowUp" || e.key === "ArrowLeft" ? -1 : 0;
+    if (step === 0 || isChecked) return;
+    e.preventDefault();
+    const next = (index + step + currentQ.options.length) % currentQ.options.length;
+    handleOptionClick(next);
+    optionRefs.current[next]?.focus();
+  };
+
+  // 1–4 pick an option (or place that fragment when ordering), Enter checks or moves on, R opens the report panel.
+  // Typing in the tutor chat or the report comment is left alone.
+  shortcutRef.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (e.ctrlKey || e.metaKey || e.altKey || e.isComposing) return;
+    if (e.key === "Escape" && isFlagging) {
+      setIsFlagging(false);
+      return;
+    }
+    if (target.closest("input, textarea, select, [contenteditable='true']")) return;
+
+    const number = Number(e.key);
+    if (Number.isInteger(number) && number >= 1 && number <= currentQ.options.length) {
+      if (isChecked || isFlagged) return;
+      e.preventDefault();
+      if (isOrderMode) handlePlaceFragment(number - 1);
+      else handleOptionClick(number - 1);
+    } else if (e.key === "Enter") {
+      // Any other focused button handles Enter itself
+      if (target.closest("button, a") && !target.closest("[role='radio']")) return;
+      if (isChecked || isFlagged) {
+        e.preventDefault();
+        handleNext();
+      } else if (selectedOption !== null) {
+        e.preventDefault();
+        handleCheck();
+      }
+    } else if ((e.key === "r" || e.key === "R") && !isFlagged) {
+      e.preventDefault();
+      setIsFlagging(f => !f);
     }
   };
 
-  const progress = ((currentIndex + 1) / questions.length) * 100;
+  const isCorrect = selectedOption === currentQ.correctAnswerIndex;
+  const announcement = isChecked
+    ? (isCorrect ? "正解" : `不正解。正解は${currentQ.correctAnswerIndex + 1}番「${currentQ.options[currentQ.correctAnswerIndex]}」`)
+    : isFlagged ? "報告しました。この問題は採点から除外されます。" : "";
+
+  const progress = ((currentIndex + 1) / total) * 100;
 
   return (
-    <div className="min-h-screen bg-stone-50 flex flex-col items-center py-6 px-4 font-sans md:py-12">
+    <div ref={lookupRef} className="min-h-screen bg-stone-50 flex flex-col items-center py-6 px-4 font-sans md:py-12">
       {/* Header */}
       <div className="w-full max-w-2xl mb-8">
         <div className="flex justify-between items-end mb-2">
@@ -424,69 +3308,472 @@ const Quiz = ({
           <div className="flex items-center gap-4">
              {/* Timer Display */}
             <div className="flex items-center text-stone-500 font-mono text-sm bg-white px-2 py-1 rounded border border-stone-200 shadow-sm">
-                <svg className="w-4 h-4 mr-1 text-stone-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                <svg className="w-4 h-4 mr-1 text-stone-400" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                <span className="sr-only">経過時間</span>
                 {formatTime(seconds)}
             </div>
             <span className="text-sm font-bold text-stone-600">
-                {currentIndex + 1} <span className="text-stone-300">/</span> {questions.length}
+                {currentIndex + 1} <span className="text-stone-300">/</span> {total}
+            </span>
+            <button
+              onClick={() => setIsFlagging(f => !f)}
+              disabled={isFlagged}
+              className={`p-1.5 rounded border transition ${isFlagged ? 'border-amber-300 bg-amber-50 text-amber-600' : 'border-stone-200 bg-white text-stone-400 hover:text-amber-600 hover:border-amber-300'}`}
+              title={isFlagged ? "報告済み" : "この問題はおかしい (R)"}
+              aria-label={isFlagged ? "報告済み" : "この問題はおかしい"}
+              aria-expanded={isFlagging}
+            >
+              <svg className="w-4 h-4" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" /></svg>
+            </button>
+          </div>
+        </div>
+        <div
+          className="h-1.5 bg-stone-200 rounded-full overflow-hidden"
+          role="progressbar"
+          aria-label="進捗"
+          aria-valuemin={1}
+          aria-valuemax={total}
+          aria-valuenow={currentIndex + 1}
+        >
+          <div 
+            className={`h-full transition-all duration-300 ${config.id === 'review_mistakes' ? 'bg-rose-500' : 'bg-indigo-600'}`}
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+
+      <div role="status" aria-live="polite" className="sr-only">{announcement}</div>
+
+      {/* Question Card */}
+      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-sm border border-stone-200 overflow-hidden mb-6">
+        {currentQ.categoryLabel && 'srs' in currentQ && (
+           <div className="bg-stone-50 px-6 py-2 border-b border-stone-100 text-xs text-stone-400 flex items-center">
+             <span className="w-1.5 h-1.5 rounded-full bg-stone-300 mr-2"></span>
+             Original: {currentQ.categoryLabel}
+           </div>
+        )}
+        <GroupIndicator questions={questions} index={currentIndex} />
+        {isListening && (
+          <div className="px-6 pt-4 flex justify-end">
+            <button
+              onClick={() => setPlayOnce(p => !p)}
+              className="text-xs font-bold px-3 py-1 rounded-full border border-stone-200 text-stone-500 hover:border-indigo-400 hover:text-indigo-600 transition"
+            >
+              {playOnce ? "練習モードにする" : "本番モードにする"}
+            </button>
+          </div>
+        )}
+        {canBuildOrder && (
+          <div className="px-6 pt-4 flex justify-end">
+            <button
+              onClick={handleToggleOrderMode}
+              disabled={isChecked}
+              className="text-xs font-bold px-3 py-1 rounded-full border border-stone-200 text-stone-500 hover:border-indigo-400 hover:text-indigo-600 transition disabled:opacity-40"
+            >
+              {isOrderMode ? "★だけ答える" : "全文を並べる"}
+            </button>
+          </div>
+        )}
+        <div
+          ref={questionRef}
+          tabIndex={-1}
+          aria-label={`問題 ${currentIndex + 1} / ${total}`}
+          className="p-6 md:p-10 border-b border-stone-100 focus:outline-none"
+        >
+          <div className="text-xl md:text-2xl font-bold text-stone-800 leading-relaxed whitespace-pre-wrap">
+            {isListening && (
+              <React.Fragment key={currentQ.id}>
+                <ListeningPlayer question={currentQ} speech={speech} playOnce={playOnce} isChecked={isChecked} />
+              </React.Fragment>
+            )}
+            {isOrderMode ? (
+              <OrderBuilder
+                question={currentQ}
+                slots={slots}
+                isChecked={isChecked}
+                onPlace={handlePlaceFragment}
+                onRemove={handleRemoveFragment}
+              />
+            ) : !isHiddenUntilChecked && (
+              <QuestionBody content={currentQ.content} groupId={currentQ.groupId} furigana={showFurigana} />
+            )}
+          </div>
+        </div>
+
+        {/* Options */}
+        {!isOrderMode && (
+          <div className="p-6 md:p-8 grid grid-cols-1 gap-3" role="radiogroup" aria-label="選択肢">
+            {currentQ.options.map((option, idx) => {
+              let baseStyle = "p-4 rounded-xl border-2 text-left transition-all duration-200 flex items-center ";
+          
+              if (isChecked) {
+                if (idx === currentQ.correctAnswerIndex) {
+                  baseStyle += "bg-green-50 border-green-500 text-green-900 font-bold";
+                } else if (idx === selectedOption && idx !== currentQ.correctAnswerIndex) {
+                  baseStyle += "bg-red-50 border-red-500 text-red-900 opacity-60";
+                } else {
+                  baseStyle += "bg-stone-50 border-transparent text-stone-400 opacity-40";
+                }
+              } else {
+                if (selectedOption === idx) {
+                  baseStyle += "bg-indigo-50 border-indigo-600 text-indigo-900 shadow-md ring-1 ring-indigo-200";
+                } else {
+                  baseStyle += "bg-white border-stone-200 text-stone-700 hover:border-indigo-400 hover:bg-stone-50";
+                }
+              }
+
+              return (
+                <button
+                  key={idx}
+                  ref={el => { optionRefs.current[idx] = el; }}
+                  role="radio"
+                  aria-checked={selectedOption === idx}
+                  tabIndex={idx === (selectedOption ?? 0) ? 0 : -1}
+                  onClick={() => handleOptionClick(idx)}
+                  onKeyDown={e => handleOptionKeyDown(e, idx)}
+                  disabled={isChecked}
+                  className={baseStyle}
+                >
+                  <div className={`w-7 h-7 rounded-full flex items-center justify-center mr-4 text-xs font-bold border shrink-0 ${
+                    isChecked && idx === currentQ.correctAnswerIndex ? 'bg-green-500 border-green-500 text-white' :
+                    isChecked && idx === selectedOption ? 'bg-red-500 border-red-500 text-white' :
+                    selectedOption === idx ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-stone-300 text-stone-400'
+                  }`}>
+                    {idx + 1}
+                  </div>
+                  <span className="text-base md:text-lg">{isHiddenUntilChecked ? "" : <Furigana text={option} show={showFurigana} />}</span>
+                  {isChecked && idx === currentQ.correctAnswerIndex && (
+                    <span className="ml-auto pl-3 text-xs font-bold text-green-700 shrink-0">正解</span>
+                  )}
+                  {isChecked && idx === selectedOption && !isCorrect && (
+                    <span className="ml-auto pl-3 text-xs font-bold text-red-700 shrink-0">あなたの回答</span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {isFlagging && !isFlagged && (
+        <div ref={flagPanelRef} className="w-full max-w-2xl mb-6 bg-white rounded-xl border border-amber-200 p-5 shadow-sm">
+          <h3 id="flag-heading" className="font-bold text-amber-800 mb-3">この問題はおかしい</h3>
+          <div className="space-y-2 mb-3" role="radiogroup" aria-labelledby="flag-heading">
+            {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map(reason => (
+              <label key={reason} className="flex items-center text-sm text-stone-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="flag-reason"
+                  className="mr-2"
+                  checked={flagReason === reason}
+                  onChange={() => setFlagReason(reason)}
+                />
+                {FLAG_REASON_LABELS[reason]}
+              </label>
+            ))}
+          </div>
+          <input
+            value={flagComment}
+            onChange={e => setFlagComment(e.target.value)}
+            placeholder="詳しく (任意)"
+            className="w-full border border-stone-200 rounded-lg px-3 py-2 text-sm mb-3 focus:outline-none focus:border-amber-400"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsFlagging(false)}
+              className="px-4 py-2 text-sm font-bold rounded-lg border border-stone-200 text-stone-500 hover:border-stone-400 transition"
+            >
+              キャンセル
+            </button>
+            <button
+              onClick={handleFlag}
+              className="px-4 py-2 text-sm font-bold rounded-lg bg-amber-500 text-white hover:bg-amber-600 transition"
+            >
+              報告する
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Footer / Controls */}
+      <div className="w-full max-w-2xl mb-12">
+        {isFlagged && !isChecked ? (
+          <div className="bg-white rounded-xl shadow-sm border-l-4 border-amber-400 p-6 flex items-center justify-between">
+            <span className="text-sm text-stone-600">報告しました。この問題は採点から除外されます。</span>
+            <button
+              onClick={handleNext}
+              className="px-6 py-2.5 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 transition shadow-sm"
+            >
+              {isLastQuestion ? "結果を見る" : "次へ"}
+            </button>
+          </div>
+        ) : !isChecked ? (
+          <button
+            onClick={handleCheck}
+            disabled={selectedOption === null}
+            className={`w-full py-4 rounded-xl font-bold text-lg transition-all duration-200 shadow-sm ${
+              selectedOption === null 
+                ? 'bg-stone-200 text-stone-400 cursor-not-allowed' 
+                : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-md transform active:scale-[0.99]'
+            }`}
+          >
+            回答する (Answer)
+          </button>
+        ) : (
+          <div className="bg-white rounded-xl shadow-lg border-l-4 border-indigo-500 overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-300" ref={bottomRef}>
+            <div className="p-6">
+              <div className="flex items-center mb-3">
+                {selectedOption === currentQ.correctAnswerIndex ? (
+                  <span className="flex items-center text-green-600 font-bold text-lg">
+                    <svg className="w-6 h-6 mr-2" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+                    正解！
+                  </span>
+                ) : (
+                  <span className="flex items-center text-red-500 font-bold text-lg">
+                    <svg className="w-6 h-6 mr-2" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    不正解
+                  </span>
+                )}
+                <div className="ml-auto flex items-center gap-2">
+                  {'srs' in currentQ && (
+                     <span className="text-xs bg-rose-100 text-rose-600 px-2 py-1 rounded">
+                       {nextReviewLabel(scheduleReview((currentQ as ReviewCard).srs, selectedOption === currentQ.correctAnswerIndex))}
+                     </span>
+                  )}
+                  <button
+                    onClick={onToggleFurigana}
+                    className={`text-xs font-bold px-3 py-1 rounded-full border transition ${furigana ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-stone-200 text-stone-500 hover:border-indigo-400 hover:text-indigo-600'}`}
+                    title="漢字に読みを付ける"
+                  >
+                    ふりがな
+                  </button>
+                </div>
+              </div>
+              {isFlagged && (
+                <p className="mb-3 text-xs text-amber-700">報告済み — この問題は採点から除外されます。</p>
+              )}
+              {currentQ.testedItem && (
+                <span className="inline-block mb-3 text-xs font-bold bg-violet-50 text-violet-700 border border-violet-200 px-2 py-1 rounded">
+                  {currentQ.testedItem}
+                </span>
+              )}
+              <p className="text-stone-600 leading-relaxed text-sm md:text-base whitespace-pre-wrap">
+                <Furigana text={currentQ.explanation} show={showFurigana} />
+              </p>
+              <p className="text-xs text-stone-400 mt-2">単語をタップすると辞書が開きます。</p>
+              {currentQ.content.script && <Transcript lines={currentQ.content.script} />}
+              <React.Fragment key={currentQ.id}>
+                <TutorChat
+                  question={currentQ}
+                  selectedOption={selectedOption}
+                  canSaveNotes={'srs' in currentQ || selectedOption !== currentQ.correctAnswerIndex}
+                  onSaveNote={onSaveNote}
+                />
+              </React.Fragment>
+            </div>
+            <div className="bg-stone-50 p-4 flex justify-end">
+              <button
+                onClick={handleNext}
+                className="px-6 py-2.5 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 transition shadow-sm flex items-center"
+              >
+                {isLastQuestion ? "結果を見る" : "次へ"}
+                <svg className="w-4 h-4 ml-2" aria-hidden="true" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+              </button>
+            </div>
+          </div>
+        )}
+        <p className="hidden md:block mt-3 text-center text-xs text-stone-400">
+          キー操作: 1〜4 選択 ・ Enter 回答／次へ ・ R 報告
+        </p>
+      </div>
+      <WordLookup
+        containerRef={lookupRef}
+        enabled={isChecked}
+        context={lookupContext}
+        notebook={notebook}
+        onSaveWord={onSaveWord}
+      />
+    </div>
+  );
+};
+
+const MockExam = ({
+  questions,
+  onFinish,
+  onAnswerReport,
+  initialProgress,
+  onProgress
+}: {
+  questions: Question[],
+  onFinish: (score: number, total: number, timeSpent: number, breakdown: MondaiResult[], answerLog: AnswerRecord[]) => void,
+  onAnswerReport: (question: Question, isCorrect: boolean) => void,
+  initialProgress?: ExamProgress | null, // Where a resumed exam left off; the clock was stopped meanwhile
+  onProgress: (progress: ExamProgress) => void
+}) => {
+  const [currentIndex, setCurrentIndex] = useState(initialProgress?.currentIndex ?? 0);
+  const [answers, setAnswers] = useState<(number | null)[]>(() => initialProgress?.answers ?? questions.map(() => null));
+  const [remaining, setRemaining] = useState(initialProgress?.remaining ?? MOCK_EXAM_TIME_LIMIT);
+  const submittedRef = useRef(false);
+  const viewStartRef = useRef(Date.now());
+  const timesRef = useRef<number[]>(initialProgress?.times ?? questions.map(() => 0));
+
+  // Time on a question accumulates over every visit, as learners jump back and forth
+  const recordViewTime = () => {
+    timesRef.current[currentIndex] += (Date.now() - viewStartRef.current) / 1000;
+    viewStartRef.current = Date.now();
+  };
+
+  const goTo = (index: number) => {
+    recordViewTime();
+    setCurrentIndex(index);
+  };
+
+  // Countdown logic
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setRemaining(r => Math.max(0, r - 1));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // View time is only folded into `times` on navigation, so a resumed exam may lose the current visit
+  useEffect(() => {
+    onProgress({ currentIndex, answers, times: [...timesRef.current], remaining });
+  }, [currentIndex, answers, remaining]);
+
+  // Mondai tabs, each pointing at the first question of that Mondai
+  const mondaiTabs = MOCK_EXAM_MONDAI
+    .map(m => ({ config: m, start: questions.findIndex(q => q.mondaiId === m.id) }))
+    .filter(t => t.start !== -1);
+
+  const submit = () => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+    recordViewTime();
+
+    // Scoring happens only now; unanswered items count as wrong, as on the real exam
+    questions.forEach((q, idx) => onAnswerReport(q, answers[idx] === q.correctAnswerIndex));
+    const breakdown = buildBreakdown(questions, answers);
+    const score = breakdown.reduce((sum, r) => sum + r.correct, 0);
+    onFinish(score, questions.length, MOCK_EXAM_TIME_LIMIT - remaining, breakdown, buildAnswerLog(questions, answers, timesRef.current));
+  };
+
+  // Time's up: collect the paper
+  useEffect(() => {
+    if (remaining === 0) submit();
+  }, [remaining]);
+
+  const handleSubmitClick = () => {
+    const unanswered = answers.filter(a => a === null).length;
+    if (unanswered > 0 && !window.confirm(`未回答の問題が${unanswered}問あります。提出しますか？`)) return;
+    submit();
+  };
+
+  const handleOptionClick = (index: number) => {
+    setAnswers(prev => prev.map((a, i) => (i === currentIndex ? index : a)));
+  };
+
+  const currentQ = questions[currentIndex];
+  if (!currentQ) {
+    return <div className="p-8 text-center">No questions available. Please return to menu.</div>;
+  }
+
+  const currentMondai = MOCK_EXAM_MONDAI.find(m => m.id === currentQ.mondaiId);
+  const answeredCount = answers.filter(a => a !== null).length;
+  const isLowTime = remaining <= 10 * 60;
+
+  return (
+    <div className="min-h-screen bg-stone-50 flex flex-col items-center py-6 px-4 font-sans md:py-12">
+      {/* Header */}
+      <div className="w-full max-w-3xl mb-6">
+        <div className="flex justify-between items-end mb-4">
+          <div>
+            <span className="text-xs font-bold px-2 py-1 rounded uppercase tracking-wider bg-stone-800 text-white">
+              {MOCK_EXAM_CONFIG.label}
+            </span>
+            <span className="text-xs text-stone-400 ml-2">{MOCK_EXAM_CONFIG.subLabel}</span>
+          </div>
+          <div className="flex items-center gap-4">
+            {/* Countdown Display */}
+            <div className={`flex items-center font-mono text-sm bg-white px-2 py-1 rounded border shadow-sm ${isLowTime ? 'text-red-600 border-red-300' : 'text-stone-500 border-stone-200'}`}>
+              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+              残り {formatTime(remaining)}
+            </div>
+            <span className="text-sm font-bold text-stone-600">
+              {answeredCount} <span className="text-stone-300">/</span> {questions.length}
             </span>
           </div>
         </div>
-        <div className="h-1.5 bg-stone-200 rounded-full overflow-hidden">
-          <div 
-            className={`h-full transition-all duration-300 ${config.id === 'review_mistakes' ? 'bg-rose-500' : 'bg-indigo-600'}`}
-            style={{ width: `${progress}%` }}
-          />
+
+        {/* Mondai Tabs */}
+        <div className="flex flex-wrap gap-2 mb-3">
+          {mondaiTabs.map(({ config, start }) => (
+            <button
+              key={config.id}
+              onClick={() => goTo(start)}
+              className={`text-xs font-bold px-3 py-1.5 rounded-lg border transition ${
+                currentQ.mondaiId === config.id
+                  ? 'bg-stone-800 border-stone-800 text-white'
+                  : 'bg-white border-stone-200 text-stone-600 hover:border-stone-400'
+              }`}
+            >
+              {config.label.split(" ")[0]}
+            </button>
+          ))}
+        </div>
+
+        {/* Question Grid */}
+        <div className="flex flex-wrap gap-1">
+          {questions.map((q, idx) => (
+            <button
+              key={q.id}
+              onClick={() => goTo(idx)}
+              className={`w-8 h-8 text-xs font-mono rounded border transition ${
+                idx === currentIndex
+                  ? 'border-indigo-600 ring-1 ring-indigo-300 text-indigo-700 bg-white'
+                  : answers[idx] !== null
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'bg-white border-stone-200 text-stone-400 hover:border-stone-400'
+              }`}
+            >
+              {idx + 1}
+            </button>
+          ))}
         </div>
       </div>
 
       {/* Question Card */}
-      <div className="w-full max-w-2xl bg-white rounded-2xl shadow-sm border border-stone-200 overflow-hidden mb-6">
-        {currentQ.categoryLabel && config.id === 'review_mistakes' && (
-           <div className="bg-stone-50 px-6 py-2 border-b border-stone-100 text-xs text-stone-400 flex items-center">
-             <span className="w-1.5 h-1.5 rounded-full bg-stone-300 mr-2"></span>
-             Original: {currentQ.categoryLabel}
-           </div>
+      <div className="w-full max-w-3xl bg-white rounded-2xl shadow-sm border border-stone-200 overflow-hidden mb-6">
+        {currentMondai && (
+          <div className="bg-stone-50 px-6 py-2 border-b border-stone-100 text-xs text-stone-500">
+            <span className="font-bold mr-2">{currentMondai.label}</span>
+            {currentMondai.description}
+          </div>
         )}
+        <GroupIndicator questions={questions} index={currentIndex} />
         <div className="p-6 md:p-10 border-b border-stone-100">
-          <h2 
-            className="text-xl md:text-2xl font-bold text-stone-800 leading-relaxed whitespace-pre-wrap"
-            dangerouslySetInnerHTML={{ __html: currentQ.question }}
-          />
+          <span className="text-sm font-mono text-stone-400 mb-2 block">{currentIndex + 1}</span>
+          <div className="text-xl md:text-2xl font-bold text-stone-800 leading-relaxed whitespace-pre-wrap">
+            <QuestionBody content={currentQ.content} groupId={currentQ.groupId} />
+          </div>
         </div>
 
         {/* Options */}
         <div className="p-6 md:p-8 grid grid-cols-1 gap-3">
           {currentQ.options.map((option, idx) => {
-            let baseStyle = "p-4 rounded-xl border-2 text-left transition-all duration-200 flex items-center ";
-            
-            if (isChecked) {
-              if (idx === currentQ.correctAnswerIndex) {
-                baseStyle += "bg-green-50 border-green-500 text-green-900 font-bold";
-              } else if (idx === selectedOption && idx !== currentQ.correctAnswerIndex) {
-                baseStyle += "bg-red-50 border-red-500 text-red-900 opacity-60";
-              } else {
-                baseStyle += "bg-stone-50 border-transparent text-stone-400 opacity-40";
-              }
-            } else {
-              if (selectedOption === idx) {
-                baseStyle += "bg-indigo-50 border-indigo-600 text-indigo-900 shadow-md ring-1 ring-indigo-200";
-              } else {
-                baseStyle += "bg-white border-stone-200 text-stone-700 hover:border-indigo-400 hover:bg-stone-50";
-              }
-            }
-
+            const isSelected = answers[currentIndex] === idx;
             return (
               <button
                 key={idx}
                 onClick={() => handleOptionClick(idx)}
-                disabled={isChecked}
-                className={baseStyle}
+                className={`p-4 rounded-xl border-2 text-left transition-all duration-200 flex items-center ${
+                  isSelected
+                    ? 'bg-indigo-50 border-indigo-600 text-indigo-900 shadow-md ring-1 ring-indigo-200'
+                    : 'bg-white border-stone-200 text-stone-700 hover:border-indigo-400 hover:bg-stone-50'
+                }`}
               >
                 <div className={`w-7 h-7 rounded-full flex items-center justify-center mr-4 text-xs font-bold border shrink-0 ${
-                  isChecked && idx === currentQ.correctAnswerIndex ? 'bg-green-500 border-green-500 text-white' :
-                  isChecked && idx === selectedOption ? 'bg-red-500 border-red-500 text-white' :
-                  selectedOption === idx ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-stone-300 text-stone-400'
+                  isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-stone-300 text-stone-400'
                 }`}>
                   {idx + 1}
                 </div>
@@ -498,51 +3785,658 @@ const Quiz = ({
       </div>
 
       {/* Footer / Controls */}
-      <div className="w-full max-w-2xl mb-12">
-        {!isChecked ? (
+      <div className="w-full max-w-3xl mb-12 flex items-center gap-3">
+        <button
+          onClick={() => goTo(Math.max(0, currentIndex - 1))}
+          disabled={currentIndex === 0}
+          className="px-5 py-3 rounded-xl font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          前へ
+        </button>
+        <button
+          onClick={() => goTo(Math.min(questions.length - 1, currentIndex + 1))}
+          disabled={currentIndex === questions.length - 1}
+          className="px-5 py-3 rounded-xl font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          次へ
+        </button>
+        <button
+          onClick={handleSubmitClick}
+          className="ml-auto px-6 py-3 bg-stone-800 text-white font-bold rounded-xl hover:bg-stone-900 transition shadow-sm"
+        >
+          解答を提出する (Submit)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const Results = ({ 
+  score, 
+  total, 
+  timeSpent,
+  breakdown,
+  config,
+  onRestart,
+  onNextSet
+}: { 
+  score: number, 
+  total: number, 
+  timeSpent: number,
+  breakdown?: MondaiResult[],
+  config: MondaiConfig | null,
+  onRestart: () => void,
+  onNextSet?: () => void // Same Mondai again; usually already prefetched
+}) => {
+  const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
+  const isMockExam = config?.id === 'mock_exam';
+  const sectionScores = breakdown ? estimateScaledScores(breakdown) : [];
+  const hasEstimate = sectionScores.some(s => s.score !== null);
+  const judgement = hasEstimate ? judgePass(sectionScores) : null;
+  
+  let message = "";
+  if (percentage === 100) message = "完璧です！合格間違いなし！";
+  else if (percentage >= 80) message = "素晴らしい！合格圏内です。";
+  else if (percentage >= 60) message = "あと少し！苦手を克服しましょう。";
+  else message = "基礎から復習しましょう。";
+
+  return (
+    <div className="min-h-screen bg-stone-50 flex flex-col items-center justify-center p-6 text-center">
+      <div className="bg-white p-10 rounded-2xl shadow-xl max-w-md w-full border border-stone-100">
+        <h2 className="text-2xl font-bold text-stone-800 mb-2">{isMockExam ? "模擬試験結果" : "練習結果"}</h2>
+        
+        <div className="relative w-48 h-48 mx-auto my-8 flex items-center justify-center">
+          <svg className="w-full h-full transform -rotate-90">
+            <circle cx="96" cy="96" r="88" stroke="currentColor" strokeWidth="12" fill="transparent" className="text-stone-100" />
+            <circle 
+              cx="96" cy="96" r="88" 
+              stroke="currentColor" 
+              strokeWidth="12" 
+              fill="transparent" 
+              className={`text-indigo-600 transition-all duration-1000 ease-out`}
+              strokeDasharray={552} // 2 * pi * 88
+              strokeDashoffset={552 - (552 * percentage) / 100}
+            />
+          </svg>
+          <div className="absolute flex flex-col items-center justify-center">
+            <span className="text-5xl font-bold text-stone-800">{score}</span>
+            <span className="text-stone-400 text-xl font-medium">/ {total}</span>
+          </div>
+        </div>
+
+        <div className="mb-6 grid grid-cols-2 gap-4">
+           <div className="bg-stone-50 p-3 rounded-lg">
+             <span className="block text-xs text-stone-400 uppercase tracking-wide">正答率</span>
+             <span className="font-bold text-lg text-stone-700">{percentage}%</span>
+           </div>
+           <div className="bg-stone-50 p-3 rounded-lg">
+             <span className="block text-xs text-stone-400 uppercase tracking-wide">タイム</span>
+             <span className="font-bold text-lg text-stone-700">{formatTime(timeSpent)}</span>
+           </div>
+        </div>
+
+        {judgement && (
+          <div className="mb-6 text-left">
+            <h3 className="text-xs text-stone-400 uppercase tracking-wide mb-2">推定得点 (Estimated Score)</h3>
+            <div className="space-y-2 mb-3">
+              {sectionScores.map(s => (
+                <div key={s.id} className="bg-stone-50 p-3 rounded-lg">
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-bold text-stone-700">{s.label}</span>
+                    <span className={`font-mono ${s.score === null ? 'text-stone-300' : s.score < SECTION_PASS_MARK ? 'text-red-600 font-bold' : 'text-stone-600'}`}>
+                      {s.score === null ? "未受験" : `${s.score} / ${SECTION_MAX_SCORE}`}
+                    </span>
+                  </div>
+                  <div className="relative h-1.5 bg-stone-200 rounded-full overflow-hidden">
+                    <div 
+                      className={`h-full ${s.score !== null && s.score < SECTION_PASS_MARK ? 'bg-red-500' : 'bg-emerald-500'}`} 
+                      style={{ width: `${((s.score ?? 0) / SECTION_MAX_SCORE) * 100}%` }} 
+                    />
+                    {/* 基準点 marker */}
+                    <div className="absolute top-0 h-full w-0.5 bg-stone-500" style={{ left: `${(SECTION_PASS_MARK / SECTION_MAX_SCORE) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className={`flex items-center justify-between p-3 rounded-lg border ${
+              judgement.verdict === 'pass' ? 'bg-green-50 border-green-200 text-green-800' :
+              judgement.verdict === 'fail' ? 'bg-red-50 border-red-200 text-red-800' :
+              'bg-amber-50 border-amber-200 text-amber-800'
+            }`}>
+              <span className="font-bold">
+                {judgement.verdict === 'pass' ? "合格圏内" : judgement.verdict === 'fail' ? "不合格圏" : "判定保留"}
+              </span>
+              <span className="font-mono text-sm">総合 {judgement.total} / {SECTION_MAX_SCORE * SCORE_SECTIONS.length}</span>
+            </div>
+          </div>
+        )}
+
+        {breakdown && breakdown.length > 1 && (
+          <div className="mb-6 text-left">
+            <h3 className="text-xs text-stone-400 uppercase tracking-wide mb-2">問題別の結果</h3>
+            <div className="space-y-2">
+              {breakdown.map(r => {
+                const pct = r.total > 0 ? Math.round((r.correct / r.total) * 100) : 0;
+                return (
+                  <div key={r.id} className="bg-stone-50 p-3 rounded-lg">
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="font-bold text-stone-700">{r.label}</span>
+                      <span className="font-mono text-stone-500">{r.correct} / {r.total}</span>
+                    </div>
+                    <div className="h-1.5 bg-stone-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-600" style={{ width: `${pct}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <div className="mb-8">
+           <p className="text-lg font-bold text-indigo-900">{judgement ? judgement.message : message}</p>
+        </div>
+
+        {onNextSet && (
           <button
-            onClick={handleCheck}
-            disabled={selectedOption === null}
-            className={`w-full py-4 rounded-xl font-bold text-lg transition-all duration-200 shadow-sm ${
-              selectedOption === null 
-                ? 'bg-stone-200 text-stone-400 cursor-not-allowed' 
-                : 'bg-indigo-600 text-white hover:bg-indigo-700 hover:shadow-md transform active:scale-[0.99]'
-            }`}
+            onClick={onNextSet}
+            className="w-full py-4 mb-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition shadow-lg flex items-center justify-center"
           >
-            回答する (Answer)
+            <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" /></svg>
+            次のセットへ
+          </button>
+        )}
+        <button 
+          onClick={onRestart}
+          className="w-full py-4 bg-stone-800 text-white rounded-xl font-bold hover:bg-stone-900 transition shadow-lg flex items-center justify-center"
+        >
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
+          メニューに戻る
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const Sparkline = ({ values }: { values: number[] }) => {
+  if (values.length < 2) return <span className="text-xs text-stone-300">—</span>;
+  const points = values.map((v, i) => `${(i / (values.length - 1)) * 80},${20 - v * 20}`).join(" ");
+  return (
+    <svg className="w-20 h-5 text-indigo-500" viewBox="-2 -2 84 24" fill="none" stroke="currentColor" strokeWidth={2}>
+      <polyline points={points} strokeLinecap="round" strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+const ACTIVITY_DAYS = 28;
+
+const Dashboard = ({
+  history,
+  onSelect,
+  onBack
+}: {
+  history: SessionRecord[],
+  onSelect: (c: MondaiConfig) => void,
+  onBack: () => void
+}) => {
+  const stats = computeMondaiStats(history);
+  const weakest = findWeakest(stats);
+  const streaks = computeStreaks(history);
+  const totalAnswers = history.reduce((sum, s) => sum + s.answers.length, 0);
+
+  const activity = Array.from({ length: ACTIVITY_DAYS }, (_, i) => {
+    const day = Date.now() - (ACTIVITY_DAYS - 1 - i) * DAY_MS;
+    return { key: dayKey(day), studied: streaks.days.has(dayKey(day)) };
+  });
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-stone-800">学習記録 (Progress)</h1>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 rounded-lg font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+          >
+            メニューに戻る
           </button>
+        </div>
+
+        {history.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-stone-200 p-10 text-center text-stone-400">
+            まだ記録がありません。問題を解くとここに表示されます。
+          </div>
         ) : (
-          <div className="bg-white rounded-xl shadow-lg border-l-4 border-indigo-500 overflow-hidden animate-in fade-in slide-in-from-bottom-2 duration-300" ref={bottomRef}>
-            <div className="p-6">
-              <div className="flex items-center mb-3">
-                {selectedOption === currentQ.correctAnswerIndex ? (
-                  <span className="flex items-center text-green-600 font-bold text-lg">
-                    <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                    正解！
-                  </span>
-                ) : (
-                  <span className="flex items-center text-red-500 font-bold text-lg">
-                    <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-                    不正解
-                  </span>
-                )}
-                {config.id === 'review_mistakes' && selectedOption === currentQ.correctAnswerIndex && (
-                   <span className="ml-auto text-xs bg-rose-100 text-rose-600 px-2 py-1 rounded">錯題集から削除しました</span>
-                )}
+          <>
+            {/* Streaks */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              {[
+                { label: "連続学習", value: `${streaks.current}日` },
+                { label: "最長記録", value: `${streaks.longest}日` },
+                { label: "セッション", value: `${history.length}回` },
+                { label: "総回答数", value: `${totalAnswers}問` },
+              ].map(card => (
+                <div key={card.label} className="bg-white p-4 rounded-xl border border-stone-200 shadow-sm">
+                  <span className="block text-xs text-stone-400 uppercase tracking-wide">{card.label}</span>
+                  <span className="font-bold text-2xl text-stone-800">{card.value}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="bg-white p-4 rounded-xl border border-stone-200 shadow-sm mb-6">
+              <span className="block text-xs text-stone-400 uppercase tracking-wide mb-2">過去{ACTIVITY_DAYS}日間</span>
+              <div className="flex flex-wrap gap-1">
+                {activity.map(day => (
+                  <div key={day.key} title={day.key} className={`w-5 h-5 rounded ${day.studied ? 'bg-emerald-500' : 'bg-stone-100'}`} />
+                ))}
               </div>
-              <p className="text-stone-600 leading-relaxed text-sm md:text-base whitespace-pre-wrap">
-                {currentQ.explanation}
-              </p>
             </div>
-            <div className="bg-stone-50 p-4 flex justify-end">
+
+            {/* Weakest */}
+            {weakest.length > 0 && (
+              <div className="mb-6">
+                <h2 className="text-xl font-bold mb-4 flex items-center text-rose-700">
+                  <span className="w-2 h-6 rounded mr-2 bg-current"></span>
+                  苦手な問題 (Weakest)
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {weakest.map(s => {
+                    const config = MONDAI_LIST.find(m => m.id === s.id);
+                    return (
+                      <div key={s.id} className="bg-white p-4 rounded-xl border border-rose-200 shadow-sm">
+                        <span className="block font-bold text-stone-800">{s.label}</span>
+                        <span className="text-2xl font-bold text-rose-600">{Math.round((s.correct / s.answered) * 100)}%</span>
+                        <span className="text-xs text-stone-400 ml-2">{s.correct} / {s.answered}</span>
+                        {config && (
+                          <button
+                            onClick={() => onSelect(config)}
+                            className="block w-full mt-3 py-2 rounded-lg text-sm font-bold bg-rose-600 text-white hover:bg-rose-700 transition"
+                          >
+                            練習する
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {/* Per-Mondai */}
+            <div className="bg-white rounded-xl border border-stone-200 shadow-sm overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-stone-50 text-xs text-stone-400 uppercase tracking-wide">
+                  <tr>
+                    <th className="text-left p-3">問題</th>
+                    <th className="text-right p-3">正答率</th>
+                    <th className="p-3">推移</th>
+                    <th className="text-right p-3">平均時間 / 目安</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.map(s => {
+                    const pace = MONDAI_LIST.find(m => m.id === s.id)?.pace;
+                    const isSlow = pace !== undefined && s.avgSeconds > pace;
+                    return (
+                      <tr key={s.id} className="border-t border-stone-100">
+                        <td className="p-3 font-bold text-stone-700">{s.label}</td>
+                        <td className="p-3 text-right font-mono">{Math.round((s.correct / s.answered) * 100)}%</td>
+                        <td className="p-3 text-center"><Sparkline values={s.trend} /></td>
+                        <td className={`p-3 text-right font-mono ${isSlow ? 'text-red-600 font-bold' : 'text-stone-600'}`}>
+                          {Math.round(s.avgSeconds)}秒{pace !== undefined && <span className="text-stone-400 font-normal"> / {pace}秒</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const COVERAGE_STYLES: Record<CoverageStatus, string> = {
+  new: "bg-white border-stone-200 text-stone-600",
+  practiced: "bg-amber-50 border-amber-300 text-amber-800",
+  mastered: "bg-emerald-50 border-emerald-300 text-emerald-800",
+};
+
+const TargetPicker = ({
+  history,
+  wordLists,
+  notebook,
+  onSaveWordLists,
+  onStart,
+  onBack
+}: {
+  history: SessionRecord[],
+  wordLists: WordList[],
+  notebook: NotebookWord[],
+  onSaveWordLists: (lists: WordList[]) => void,
+  onStart: (config: MondaiConfig) => void,
+  onBack: () => void
+}) => {
+  const tabs = [
+    { id: "grammar", name: "文法 (Grammar)", items: N1_GRAMMAR_POINTS },
+    { id: "vocab", name: "語彙 (Vocabulary)", items: N1_VOCABULARY },
+    ...(notebook.length > 0 ? [{ id: "notebook", name: "単語帳 (Notebook)", items: notebook }] : []),
+    ...wordLists.map(list => ({ id: list.id, name: list.name, items: list.items })),
+  ];
+  const [tabId, setTabId] = useState("grammar");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [newListName, setNewListName] = useState("");
+  const [newListText, setNewListText] = useState("");
+
+  const tab = tabs.find(t => t.id === tabId) ?? tabs[0];
+  const kind: TargetKind = tab.id === "grammar" ? "grammar" : "vocab";
+  const mondaiChoices = MONDAI_LIST.filter(m => targetKindFor(m) === kind);
+  const [mondaiId, setMondaiId] = useState<MondaiId>(mondaiChoices[0].id);
+  const config = mondaiChoices.find(m => m.id === mondaiId) ?? mondaiChoices[0];
+
+  const progress = computeTargetProgress(history);
+  const statusOf = (t: StudyTarget) => coverageStatus(progress.get(normalizeItem(t.text)));
+  const practiced = tab.items.filter(t => statusOf(t) !== "new").length;
+  const mastered = tab.items.filter(t => statusOf(t) === "mastered").length;
+  const picked = tab.items.filter(t => selected.has(t.id));
+
+  const switchTab = (id: string) => {
+    setTabId(id);
+    setSelected(new Set());
+    const nextKind = id === "grammar" ? "grammar" : "vocab";
+    setMondaiId(MONDAI_LIST.find(m => targetKindFor(m) === nextKind)!.id);
+  };
+
+  const toggle = (id: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const addList = () => {
+    const list = parseWordList(newListName.trim() || "My words", newListText);
+    if (list.items.length === 0) return;
+    onSaveWordLists([...wordLists, list]);
+    setNewListName("");
+    setNewListText("");
+    switchTab(list.id);
+  };
+
+  const deleteList = (id: string) => {
+    onSaveWordLists(wordLists.filter(l => l.id !== id));
+    switchTab("grammar");
+  };
+
+  const inputStyle = "w-full px-3 py-2 rounded-lg border border-stone-200 text-sm focus:border-indigo-400 focus:outline-none";
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-stone-800">重点練習 (Targeted Practice)</h1>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 rounded-lg font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+          >
+            メニューに戻る
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => switchTab(t.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-bold border transition ${
+                t.id === tab.id ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-stone-200 text-stone-600 hover:border-stone-400'
+              }`}
+            >
+              {t.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6 mb-6">
+          <div className="flex items-center justify-between mb-2 text-sm text-stone-500">
+            <span>練習済み {practiced} / 習得 {mastered} / 全 {tab.items.length}</span>
+            {wordLists.some(l => l.id === tab.id) && (
+              <button onClick={() => deleteList(tab.id)} className="text-xs text-red-500 hover:text-red-700">
+                このリストを削除
+              </button>
+            )}
+          </div>
+          <div className="w-full h-2 bg-stone-100 rounded-full overflow-hidden flex mb-4">
+            <div className="h-full bg-emerald-500" style={{ width: `${(mastered / tab.items.length) * 100}%` }} />
+            <div className="h-full bg-amber-400" style={{ width: `${((practiced - mastered) / tab.items.length) * 100}%` }} />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {tab.items.map(t => (
               <button
-                onClick={handleNext}
-                className="px-6 py-2.5 bg-indigo-600 text-white font-bold rounded-lg hover:bg-indigo-700 transition shadow-sm flex items-center"
+                key={t.id}
+                onClick={() => toggle(t.id)}
+                title={[t.reading, t.meaning].filter(Boolean).join(" · ")}
+                className={`px-3 py-1.5 rounded-lg border text-sm transition ${COVERAGE_STYLES[statusOf(t)]} ${
+                  selected.has(t.id) ? 'ring-2 ring-indigo-500' : 'hover:border-stone-400'
+                }`}
               >
-                {isLastQuestion ? "結果を見る" : "次へ"}
-                <svg className="w-4 h-4 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" /></svg>
+                {t.text}
               </button>
-            </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6 mb-6 flex flex-col md:flex-row gap-3 md:items-center">
+          <select
+            value={config.id}
+            onChange={e => setMondaiId(e.target.value as MondaiId)}
+            className="px-3 py-2 rounded-lg border border-stone-200 text-sm focus:border-indigo-400 focus:outline-none"
+          >
+            {mondaiChoices.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+          </select>
+          <button
+            onClick={() => onStart({ ...config, targets: picked })}
+            disabled={picked.length === 0}
+            className="flex-1 py-2.5 rounded-lg font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition shadow-sm disabled:bg-stone-200 disabled:text-stone-400 disabled:cursor-not-allowed"
+          >
+            選択した{picked.length}項目で練習する
+          </button>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-stone-200 p-6">
+          <h2 className="font-bold text-stone-700 mb-4">単語リストを追加 (New Word List)</h2>
+          <input
+            className={`${inputStyle} mb-3`}
+            placeholder="リスト名"
+            value={newListName}
+            onChange={e => setNewListName(e.target.value)}
+          />
+          <textarea
+            className={`${inputStyle} font-mono h-32 mb-3`}
+            placeholder={"一行に一語: 単語, 読み, 意味\n措置, そち, measure"}
+            value={newListText}
+            onChange={e => setNewListText(e.target.value)}
+          />
+          <button
+            onClick={addList}
+            disabled={!newListText.trim()}
+            className="px-4 py-2 rounded-lg text-sm font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            追加する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FLAG_STATUS_LABELS: Record<FlagStatus, { label: string, style: string }> = {
+  pending: { label: "確認中", style: "bg-stone-100 text-stone-600" },
+  restored: { label: "問題なし", style: "bg-emerald-50 text-emerald-700" },
+  fixed: { label: "修正済み", style: "bg-sky-50 text-sky-700" },
+  discarded: { label: "破棄", style: "bg-red-50 text-red-700" },
+};
+
+const FlaggedList = ({
+  flagged,
+  onVerify,
+  onAddToReview,
+  onRemove,
+  onBack
+}: {
+  flagged: FlaggedQuestion[],
+  onVerify: (entry: FlaggedQuestion) => void,
+  onAddToReview: (entry: FlaggedQuestion) => void,
+  onRemove: (entry: FlaggedQuestion) => void,
+  onBack: () => void
+}) => {
+  const entries = [...flagged].sort((a, b) => b.flaggedAt - a.flaggedAt);
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-stone-800">報告した問題 (Flagged)</h1>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 rounded-lg font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+          >
+            メニューに戻る
+          </button>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-stone-200 p-10 text-center text-stone-400">
+            報告した問題はありません。問題画面の旗アイコンから報告できます。
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {entries.map(entry => {
+              const shown = entry.fixed ?? entry.question;
+              const status = FLAG_STATUS_LABELS[entry.status];
+              return (
+                <div key={entry.id} className="bg-white rounded-xl border border-stone-200 p-5 shadow-sm">
+                  <div className="flex items-center gap-2 mb-3 text-xs">
+                    <span className={`font-bold px-2 py-1 rounded ${status.style}`}>{status.label}</span>
+                    <span className="text-stone-500">{FLAG_REASON_LABELS[entry.reason]}</span>
+                    <span className="ml-auto text-stone-400">{entry.question.categoryLabel}</span>
+                  </div>
+                  <p className="text-stone-800 whitespace-pre-wrap mb-3 line-clamp-6">{entry.question.question}</p>
+                  <ol className="text-sm space-y-1 mb-3">
+                    {shown.options.map((option, i) => (
+                      <li key={i} className={i === shown.correctAnswerIndex ? "font-bold text-green-700" : "text-stone-600"}>
+                        {i + 1}. {option}
+                        {entry.fixed && i === entry.question.correctAnswerIndex && i !== shown.correctAnswerIndex && (
+                          <span className="ml-2 text-xs font-normal text-red-500">(元の正解)</span>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  {entry.comment && <p className="text-xs text-stone-500 mb-2">メモ: {entry.comment}</p>}
+                  {entry.verdictNote && (
+                    <p className="text-sm text-stone-600 bg-stone-50 rounded-lg p-3 mb-3 whitespace-pre-wrap">{entry.verdictNote}</p>
+                  )}
+                  {entry.fixed && entry.fixed.explanation !== entry.question.explanation && (
+                    <p className="text-sm text-sky-800 bg-sky-50 rounded-lg p-3 mb-3 whitespace-pre-wrap">{entry.fixed.explanation}</p>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    {entry.status === "pending" && (
+                      <button
+                        onClick={() => onVerify(entry)}
+                        className="px-3 py-1.5 text-xs font-bold rounded-lg border border-stone-200 text-stone-600 hover:border-indigo-400 hover:text-indigo-600 transition"
+                      >
+                        再確認する
+                      </button>
+                    )}
+                    {entry.returned && (
+                      <span className="self-center text-xs text-emerald-600">元の復習リスト・習得済みに戻しました</span>
+                    )}
+                    {(entry.status === "restored" || entry.status === "fixed") && !entry.returned && (
+                      <button
+                        onClick={() => onAddToReview(entry)}
+                        className="px-3 py-1.5 text-xs font-bold rounded-lg border border-stone-200 text-stone-600 hover:border-rose-400 hover:text-rose-600 transition"
+                      >
+                        復習リストに追加
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onRemove(entry)}
+                      className="px-3 py-1.5 text-xs font-bold rounded-lg border border-stone-200 text-stone-400 hover:border-red-400 hover:text-red-600 transition"
+                    >
+                      一覧から削除
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const VocabularyNotebook = ({
+  notebook,
+  onRemove,
+  onPractice,
+  onBack
+}: {
+  notebook: NotebookWord[],
+  onRemove: (word: NotebookWord) => void,
+  onPractice: () => void,
+  onBack: () => void
+}) => {
+  const words = [...notebook].sort((a, b) => b.savedAt - a.savedAt);
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-stone-800">単語帳 (Notebook)</h1>
+          <div className="flex gap-2">
+            <button
+              onClick={onPractice}
+              disabled={words.length === 0}
+              className="px-4 py-2 rounded-lg font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition disabled:bg-stone-200 disabled:text-stone-400 disabled:cursor-not-allowed"
+            >
+              重点練習で使う
+            </button>
+            <button
+              onClick={onBack}
+              className="px-4 py-2 rounded-lg font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+            >
+              メニューに戻る
+            </button>
+          </div>
+        </div>
+
+        {words.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-stone-200 p-10 text-center text-stone-400">
+            まだ単語がありません。回答後に問題文や解説の単語をタップし、「単語帳に保存」で追加できます。
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {words.map(word => (
+              <div key={word.id} className="bg-white rounded-xl border border-stone-200 p-5 shadow-sm flex flex-col">
+                <div className="flex items-baseline gap-2 mb-1">
+                  <span className="text-xl font-bold text-stone-800">{word.text}</span>
+                  {word.reading && <span className="text-sm text-stone-500">{word.reading}</span>}
+                </div>
+                <p className="text-sm text-stone-600 mb-2">{word.meaning}</p>
+                {word.example && (
+                  <p className="text-sm text-stone-500 bg-stone-50 rounded-lg p-3 mb-2">{word.example}</p>
+                )}
+                <div className="mt-auto flex items-center justify-between text-xs text-stone-400">
+                  <span>{new Date(word.savedAt).toLocaleDateString()}</span>
+                  <button onClick={() => onRemove(word)} className="text-red-500 hover:text-red-700">
+                    削除
+                  </button>
+                </div>
+              </div>
+            ))}
           </div>
         )}
       </div>
@@ -550,71 +4444,340 @@ const Quiz = ({
   );
 };
 
-const Results = ({ 
-  score, 
-  total, 
-  timeSpent,
-  onRestart 
-}: { 
-  score: number, 
-  total: number, 
-  timeSpent: number,
-  onRestart: () => void 
+// Booklet, マークシート and answer key, each starting on a new printed page. On screen the
+// answer sheet doubles as the form for entering what was marked on paper; it always prints blank.
+const PaperExamSheet = ({
+  exam,
+  onMark,
+  onScore,
+  onBack
+}: {
+  exam: PaperExam,
+  onMark: (marks: (number | null)[]) => void,
+  onScore: () => void,
+  onBack: () => void
 }) => {
-  const percentage = total > 0 ? Math.round((score / total) * 100) : 0;
-  
-  let message = "";
-  if (percentage === 100) message = "完璧です！合格間違いなし！";
-  else if (percentage >= 80) message = "素晴らしい！合格圏内です。";
-  else if (percentage >= 60) message = "あと少し！苦手を克服しましょう。";
-  else message = "基礎から復習しましょう。";
+  const sections = useMemo(() => paperSections(exam.questions), [exam.questions]);
+  const [typed, setTyped] = useState(() => marksText(exam.marks));
+  const { answered, correct } = paperScore(exam);
+  const isScored = !!exam.scoredAt;
+  const total = exam.questions.length;
+
+  const mark = (index: number, option: number) => {
+    const marks = exam.marks.map((m, i) => (i === index ? (m === option ? null : option) : m));
+    setTyped(marksText(marks));
+    onMark(marks);
+  };
+
+  const type = (text: string) => {
+    setTyped(text);
+    onMark(parseMarks(text, exam.questions));
+  };
+
+  const pageStyle = "bg-white rounded-2xl border border-stone-200 p-8 md:p-10 text-stone-800 print:border-0 print:rounded-none print:p-0";
 
   return (
-    <div className="min-h-screen bg-stone-50 flex flex-col items-center justify-center p-6 text-center">
-      <div className="bg-white p-10 rounded-2xl shadow-xl max-w-md w-full border border-stone-100">
-        <h2 className="text-2xl font-bold text-stone-800 mb-2">練習結果</h2>
-        
-        <div className="relative w-48 h-48 mx-auto my-8 flex items-center justify-center">
-          <svg className="w-full h-full transform -rotate-90">
-            <circle cx="96" cy="96" r="88" stroke="currentColor" strokeWidth="12" fill="transparent" className="text-stone-100" />
-            <circle 
-              cx="96" cy="96" r="88" 
-              stroke="currentColor" 
-              strokeWidth="12" 
-              fill="transparent" 
-              className={`text-indigo-600 transition-all duration-1000 ease-out`}
-              strokeDasharray={552} // 2 * pi * 88
-              strokeDashoffset={552 - (552 * percentage) / 100}
-            />
-          </svg>
-          <div className="absolute flex flex-col items-center justify-center">
-            <span className="text-5xl font-bold text-stone-800">{score}</span>
-            <span className="text-stone-400 text-xl font-medium">/ {total}</span>
+    <div className="min-h-screen bg-stone-50 p-6 font-sans print:bg-white print:p-0">
+      <div className="max-w-3xl mx-auto">
+        <div className="flex items-center justify-between gap-4 mb-6 print:hidden">
+          <div>
+            <h1 className="text-2xl font-bold text-stone-800">{exam.title}</h1>
+            <p className="text-sm text-stone-500">{new Date(exam.createdAt).toLocaleDateString()} ・ {total}問</p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 rounded-lg font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition"
+            >
+              印刷する
+            </button>
+            <button
+              onClick={onBack}
+              className="px-4 py-2 rounded-lg font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+            >
+              一覧に戻る
+            </button>
           </div>
         </div>
 
-        <div className="mb-6 grid grid-cols-2 gap-4">
-           <div className="bg-stone-50 p-3 rounded-lg">
-             <span className="block text-xs text-stone-400 uppercase tracking-wide">正答率</span>
-             <span className="font-bold text-lg text-stone-700">{percentage}%</span>
-           </div>
-           <div className="bg-stone-50 p-3 rounded-lg">
-             <span className="block text-xs text-stone-400 uppercase tracking-wide">タイム</span>
-             <span className="font-bold text-lg text-stone-700">{formatTime(timeSpent)}</span>
-           </div>
+        <section className={`${pageStyle} font-serif`}>
+          <h1 className="text-2xl font-bold text-center mb-1">{exam.title}</h1>
+          <p className="text-center text-sm text-stone-500 mb-8">{total}問</p>
+          {sections.map(section => (
+            <div key={section.number} className="mb-10">
+              <h2 className="text-lg font-bold border-b-2 border-stone-800 pb-1 mb-2">
+                問題{section.number}{section.mondai && `　${mondaiName(section.mondai)}`}
+              </h2>
+              <p className="text-sm mb-5">
+                {(section.mondai && PAPER_INSTRUCTIONS[section.mondai.id]) ?? section.mondai?.description}
+              </p>
+              {section.items.map(({ question, index, startsGroup }) => (
+                <div key={index} className="mb-6">
+                  {startsGroup && <QuestionMaterial content={question.content} />}
+                  <div className="break-inside-avoid">
+                    <div className="flex gap-3 leading-relaxed">
+                      <span className="shrink-0 min-w-[2rem] h-7 px-1 border border-stone-800 flex items-center justify-center font-sans text-sm font-bold">
+                        {index + 1}
+                      </span>
+                      <div className="flex-1">
+                        <Stem content={question.content} />
+                      </div>
+                    </div>
+                    <ol className={`mt-2 ml-11 grid gap-x-6 gap-y-1 ${question.options.some(o => o.length > 16) ? "grid-cols-1" : "grid-cols-2"}`}>
+                      {question.options.map((option, i) => (
+                        <li key={i} className="flex gap-2">
+                          <span className="font-sans">{i + 1}</span>
+                          <span>{option}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </section>
+
+        <section className={`${pageStyle} mt-8 print:mt-0 break-before-page`}>
+          <div className="flex items-baseline justify-between gap-4 border-b-2 border-stone-800 pb-1 mb-4">
+            <h2 className="text-xl font-bold">解答用紙（マークシート）</h2>
+            <span className="text-sm">なまえ ＿＿＿＿＿＿＿＿＿＿</span>
+          </div>
+          <p className="text-xs text-stone-500 mb-6 print:hidden">
+            用紙に記入した答えをここでマークするか、下の欄に番号を続けて入力すると採点できます。
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-3 print:grid-cols-3 gap-x-8 gap-y-6">
+            {sections.map(section => (
+              <div key={section.number} className="break-inside-avoid">
+                <h3 className="text-sm font-bold text-center border border-stone-800 py-0.5 mb-2">問題{section.number}</h3>
+                {section.items.map(({ question, index }) => {
+                  const marked = exam.marks[index];
+                  const isCorrect = marked === question.correctAnswerIndex;
+                  return (
+                    <div key={index} className="flex items-center gap-1.5 py-0.5">
+                      <span className="w-7 text-right text-xs font-bold mr-1">{index + 1}</span>
+                      {question.options.map((_, option) => (
+                        <button
+                          key={option}
+                          type="button"
+                          onClick={() => mark(index, option)}
+                          disabled={isScored}
+                          aria-label={`${index + 1}番 ${option + 1}`}
+                          aria-pressed={marked === option}
+                          className={`w-6 h-6 rounded-full border text-[10px] font-bold flex items-center justify-center transition disabled:cursor-default ${
+                            marked === option ? "bg-stone-800 border-stone-800 text-white" : "border-stone-400 text-stone-400 hover:border-stone-800"
+                          } ${isScored && option === question.correctAnswerIndex ? "ring-2 ring-emerald-500 ring-offset-1" : ""} print:bg-white print:border-stone-400 print:text-stone-400 print:ring-0`}
+                        >
+                          {option + 1}
+                        </button>
+                      ))}
+                      {isScored && marked !== null && (
+                        <span className={`ml-1 text-xs font-bold print:hidden ${isCorrect ? "text-emerald-600" : "text-red-500"}`}>
+                          {isCorrect ? "○" : "×"}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-8 pt-6 border-t border-stone-200 print:hidden">
+            {isScored ? (
+              <p className="text-sm font-bold text-emerald-700">
+                {correct} / {total}問正解 — {new Date(exam.scoredAt!).toLocaleDateString()}に復習リストへ反映しました
+              </p>
+            ) : (
+              <>
+                <label htmlFor="paper-marks" className="block text-sm font-bold text-stone-700 mb-1">番号をまとめて入力</label>
+                <p className="text-xs text-stone-500 mb-2">1番から順に、マークした番号を続けて入力します（例: 3142…）。空欄は「-」です。</p>
+                <input
+                  id="paper-marks"
+                  value={typed}
+                  onChange={e => type(e.target.value)}
+                  inputMode="numeric"
+                  autoComplete="off"
+                  className="w-full font-mono tracking-widest border border-stone-300 rounded-lg px-3 py-2 mb-4 focus:outline-none focus:border-indigo-500"
+                />
+                <div className="flex items-center justify-between gap-4">
+                  <span className="text-sm text-stone-600">
+                    入力済み {answered} / {total}問{answered < total && "（未入力の問題は反映されません）"}
+                  </span>
+                  <button
+                    onClick={onScore}
+                    disabled={answered === 0}
+                    className="px-4 py-2 rounded-lg font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition disabled:bg-stone-200 disabled:text-stone-400 disabled:cursor-not-allowed"
+                  >
+                    採点して復習リストに反映
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </section>
+
+        <section className={`${pageStyle} mt-8 print:mt-0 break-before-page`}>
+          <h2 className="text-xl font-bold border-b-2 border-stone-800 pb-1 mb-4">正答・解説</h2>
+          {sections.map(section => (
+            <div key={section.number} className="mb-6">
+              <h3 className="font-bold mb-2">問題{section.number}</h3>
+              {section.items.map(({ question, index }) => (
+                <div key={index} className="flex gap-3 mb-3 text-sm break-inside-avoid">
+                  <span className="shrink-0 w-8 font-bold">{index + 1}</span>
+                  <div>
+                    <p className="font-bold">{question.correctAnswerIndex + 1}　{question.options[question.correctAnswerIndex]}</p>
+                    {question.correctOrder && (
+                      <p className="text-xs text-stone-500">並べ方 {question.correctOrder.map(i => i + 1).join(" → ")}</p>
+                    )}
+                    <p className="text-stone-600 whitespace-pre-wrap">{question.explanation}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+const PaperExams = ({
+  exams,
+  mistakeCount,
+  onCreate,
+  onMark,
+  onScore,
+  onRemove,
+  onBack
+}: {
+  exams: PaperExam[],
+  mistakeCount: number, // Printable cards in the mistake bank
+  onCreate: (source: PaperSource) => Promise<PaperExam>,
+  onMark: (exam: PaperExam, marks: (number | null)[]) => void,
+  onScore: (exam: PaperExam) => void,
+  onRemove: (exam: PaperExam) => void,
+  onBack: () => void
+}) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<MondaiId[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const openExam = exams.find(exam => exam.id === openId);
+  const printable = MONDAI_LIST.filter(m => m.section !== "Listening");
+
+  const create = async (source: PaperSource) => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const exam = await onCreate(source);
+      setOpenId(exam.id);
+    } catch (e) {
+      console.error("Failed to create paper exam", e);
+      setError("問題を作成できませんでした。接続と設定を確認してください。");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const toggle = (id: MondaiId) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+
+  if (openExam) {
+    return (
+      <PaperExamSheet
+        exam={openExam}
+        onMark={marks => onMark(openExam, marks)}
+        onScore={() => onScore(openExam)}
+        onBack={() => setOpenId(null)}
+      />
+    );
+  }
+
+  const createStyle = "px-4 py-2 rounded-lg font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition disabled:bg-stone-200 disabled:text-stone-400 disabled:cursor-not-allowed";
+
+  return (
+    <div className="min-h-screen bg-stone-50 p-6 font-sans">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-2">
+          <h1 className="text-2xl font-bold text-stone-800">印刷用問題 (Paper)</h1>
+          <button
+            onClick={onBack}
+            className="px-4 py-2 rounded-lg font-bold bg-white border border-stone-200 text-stone-600 hover:border-stone-400 transition"
+          >
+            メニューに戻る
+          </button>
         </div>
+        <p className="text-sm text-stone-500 mb-6">
+          本番の問題用紙と同じ形式で、問題・解答用紙・正答と解説を印刷できます。解答用紙の答えはあとで入力して採点し、復習リストに反映できます。聴解は含まれません。
+        </p>
 
-        <div className="mb-8">
-           <p className="text-lg font-bold text-indigo-900">{message}</p>
+        <div className="bg-white rounded-2xl border border-stone-200 p-6 shadow-sm mb-4">
+          <h2 className="font-bold text-stone-800 mb-3">問題を選ぶ</h2>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+            {printable.map(m => (
+              <label key={m.id} className="flex items-center gap-2 text-sm text-stone-700 cursor-pointer">
+                <input type="checkbox" checked={selected.includes(m.id)} onChange={() => toggle(m.id)} className="accent-indigo-600" />
+                {m.label}
+              </label>
+            ))}
+          </div>
+          <button
+            onClick={() => create({ kind: "mondai", ids: printable.filter(m => selected.includes(m.id)).map(m => m.id) })}
+            disabled={isCreating || selected.length === 0}
+            className={createStyle}
+          >
+            作成する
+          </button>
         </div>
 
-        <button 
-          onClick={onRestart}
-          className="w-full py-4 bg-stone-800 text-white rounded-xl font-bold hover:bg-stone-900 transition shadow-lg flex items-center justify-center"
-        >
-          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
-          メニューに戻る
-        </button>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div className="bg-white rounded-2xl border border-stone-200 p-6 shadow-sm flex flex-col">
+            <h2 className="font-bold text-stone-800">模擬試験</h2>
+            <p className="text-sm text-stone-500 mb-4">言語知識（文字・語彙・文法）・読解 {MOCK_EXAM_CONFIG.count}問</p>
+            <button onClick={() => create({ kind: "mock" })} disabled={isCreating} className={`${createStyle} mt-auto self-start`}>
+              作成する
+            </button>
+          </div>
+          <div className="bg-white rounded-2xl border border-stone-200 p-6 shadow-sm flex flex-col">
+            <h2 className="font-bold text-stone-800">復習リスト</h2>
+            <p className="text-sm text-stone-500 mb-4">間違えた問題 {mistakeCount}問</p>
+            <button onClick={() => create({ kind: "mistakes" })} disabled={isCreating || mistakeCount === 0} className={`${createStyle} mt-auto self-start`}>
+              作成する
+            </button>
+          </div>
+        </div>
+
+        {isCreating && <p className="text-sm text-indigo-600 mb-4">作成中…</p>}
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <h2 className="font-bold text-stone-800 mt-8 mb-3">作成した問題用紙</h2>
+        {exams.length === 0 ? (
+          <div className="bg-white rounded-2xl border border-stone-200 p-10 text-center text-stone-400">
+            まだありません。
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {exams.map(exam => (
+              <div key={exam.id} className="bg-white rounded-xl border border-stone-200 p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-bold text-stone-800">{exam.title}</p>
+                  <p className="text-xs text-stone-400">
+                    {new Date(exam.createdAt).toLocaleDateString()} ・ {exam.questions.length}問 ・ {exam.scoredAt ? `採点済み ${paperScore(exam).correct} / ${exam.questions.length}` : "未採点"}
+                  </p>
+                </div>
+                <div className="flex gap-3 text-sm">
+                  <button onClick={() => setOpenId(exam.id)} className="font-bold text-indigo-600 hover:text-indigo-800">
+                    開く
+                  </button>
+                  <button onClick={() => onRemove(exam)} className="text-red-500 hover:text-red-700">
+                    削除
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -622,105 +4785,519 @@ const Results = ({
 
 // --- Main App ---
 
-const STORAGE_KEY_MISTAKES = "jlpt_n1_mistakes";
-const STORAGE_KEY_MASTERED = "jlpt_n1_mastered";
+// A list held in state and mirrored to storage. Updates go through a ref rather than a setState
+// updater, since React may call an updater twice and each change must be written once. Several
+// updates in one tick (e.g. a mock exam submission) still build on each other.
+const useStoredList = <T,>(persist: (prev: T[], next: T[]) => Promise<void>) => {
+  const [items, setItems] = useState<T[]>([]);
+  const ref = useRef<T[]>([]);
+  const save = (update: (prev: T[]) => T[]) => {
+    const prev = ref.current;
+    const next = update(prev);
+    ref.current = next;
+    setItems(next);
+    persist(prev, next).catch(e => console.error("Failed to save", e));
+  };
+  const load = (loaded: T[]) => {
+    ref.current = loaded;
+    setItems(loaded);
+  };
+  return { items, ref, save, load };
+};
 
 export default function App() {
   const [appState, setAppState] = useState<AppState>("menu");
   const [questions, setQuestions] = useState<Question[]>([]);
   const [finalScore, setFinalScore] = useState(0);
+  const [finalTotal, setFinalTotal] = useState(0);
   const [finalTime, setFinalTime] = useState(0);
+  const [finalBreakdown, setFinalBreakdown] = useState<MondaiResult[] | undefined>(undefined);
   const [activeConfig, setActiveConfig] = useState<MondaiConfig | null>(null);
-  const [mistakeBank, setMistakeBank] = useState<Question[]>([]);
-  const [masteredBank, setMasteredBank] = useState<string[]>([]); // Array of question text
+  // Only the records that changed are written
+  const { items: mistakeBank, ref: mistakesRef, save: saveMistakes, load: loadMistakes } = useStoredList<ReviewCard>(persistMistakes);
+  const { items: masteredBank, ref: masteredRef, save: saveMastered, load: loadMastered } = useStoredList<string>(persistMastered); // Question hashes
+  const [settings, setSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [furigana, setFurigana] = useState(false);
+  const speech = useMemo(() => createSpeechBackend(settings), [settings]);
+  // The pool filler outlives the render that started it, so it reads settings through a ref
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const { items: history, save: saveHistory, load: loadHistory } = useStoredList<SessionRecord>(persistHistory);
+  const [wordLists, setWordLists] = useState<WordList[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
+  // The background filler runs across many renders, so it reads the pool through its ref
+  const { items: pool, ref: poolRef, save: savePool, load: loadPool } = useStoredList<Question>(persistPool);
+  const { items: flagged, ref: flaggedRef, save: saveFlagged, load: loadFlagged } = useStoredList<FlaggedQuestion>(persistFlagged);
+  const { items: notebook, save: saveNotebook, load: loadNotebook } =
+    useStoredList<NotebookWord>((_, next) => persistMeta("notebook", next));
+  const { items: paperExams, save: savePaperExams, load: loadPaperExams } =
+    useStoredList<PaperExam>((_, next) => persistMeta("paperExams", next));
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const fillingRef = useRef(false);
+  // Bumped whenever a session starts or ends, so a stream from an abandoned session stops delivering
+  const sessionRef = useRef(0);
+  const prefetchRef = useRef<{ key: string, batch: Promise<Question[] | null> } | null>(null);
+  // The running session is mirrored to storage so a reload or a closed tab can pick it up again
+  const activeSessionRef = useRef<ActiveSession | null>(null);
+  const [resumable, setResumable] = useState<ActiveSession | null>(null); // Interrupted session offered on the menu
+  const [resumeProgress, setResumeProgress] = useState<SessionProgress | null>(null);
+  const [isRouted, setIsRouted] = useState(false);
 
   // Load storage on mount
   useEffect(() => {
+    loadStorage()
+      .then(stored => {
+        loadMistakes(stored.mistakes);
+        loadMastered(stored.mastered);
+        loadHistory(stored.history);
+        setSettings(stored.settings);
+        setFurigana(stored.furigana);
+        setWordLists(stored.wordLists);
+        loadPool(stored.pool);
+        loadFlagged(stored.flagged);
+        loadNotebook(stored.notebook);
+        loadPaperExams(stored.paperExams);
+        activeSessionRef.current = stored.activeSession;
+        setResumable(stored.activeSession);
+        if (stored.lastResult) {
+          setFinalScore(stored.lastResult.score);
+          setFinalTotal(stored.lastResult.total);
+          setFinalTime(stored.lastResult.timeSpent);
+          setFinalBreakdown(stored.lastResult.breakdown);
+          setActiveConfig(stored.lastResult.config);
+        }
+        setIsLoaded(true);
+      })
+      .catch(e => console.error("Failed to load storage", e));
+  }, []);
+
+  const logStorageError = (e: unknown) => console.error("Failed to save", e);
+
+  // Mastered items plus reported ones still under quarantine; read through refs so the pool filler sees
+  // what was mastered or reported while it waited
+  const excludedHashes = () => new Set<string>([...masteredRef.current, ...quarantinedHashes(flaggedRef.current)]);
+
+  const takeFromPool = (taken: Question[]) => {
+    const ids = new Set(taken.map(q => q.id));
+    savePool(prev => prev.filter(q => !ids.has(q.id)));
+  };
+
+  const poolEnabled = () =>
+    settingsRef.current.provider !== "question_pack" && settingsRef.current.poolSize > 0;
+
+  // Tops every Mondai up to `poolSize`, one throttled request at a time; stops at the first failure
+  // (usually the network) or when the pool is turned off, and resumes on the next trigger
+  const fillPool = async () => {
+    if (fillingRef.current || !navigator.onLine || !poolEnabled()) return;
+    fillingRef.current = true;
     try {
-      const storedMistakes = localStorage.getItem(STORAGE_KEY_MISTAKES);
-      if (storedMistakes) {
-        setMistakeBank(JSON.parse(storedMistakes));
-      }
-      
-      const storedMastered = localStorage.getItem(STORAGE_KEY_MASTERED);
-      if (storedMastered) {
-        setMasteredBank(JSON.parse(storedMastered));
+      let progressed = true;
+      while (progressed) {
+        progressed = false;
+        for (const config of MONDAI_LIST) {
+          if (!poolEnabled()) return;
+          const current = settingsRef.current;
+          const mastered = excludedHashes();
+          const stock = poolStock(poolRef.current, mastered)[config.id] ?? 0;
+          const count = poolRequestSize(config, stock, current.poolSize);
+          if (count === 0) continue;
+          const known = new Set<string>(poolRef.current.map(fingerprintHash));
+          const qs = await generateQuestions({ ...config, count }, current, new Set<string>([...mastered, ...known]), undefined, 1);
+          await new Promise(resolve => setTimeout(resolve, POOL_REQUEST_GAP_MS));
+          // generateQuestions falls back to excluded items when nothing else came back; those stay out,
+          // as do items mastered or reported during the request and the pause
+          const excluded = excludedHashes();
+          const added = qs.filter(q => !known.has(fingerprintHash(q)) && !isExcluded(q, excluded));
+          if (added.length === 0) continue;
+          savePool(prev => [...prev, ...added]);
+          progressed = true;
+        }
       }
     } catch (e) {
-      console.error("Failed to load storage", e);
+      console.warn("Pool top-up stopped", e);
+    } finally {
+      fillingRef.current = false;
     }
+  };
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
   }, []);
 
-  const saveMistakes = (newMistakes: Question[]) => {
-    setMistakeBank(newMistakes);
-    localStorage.setItem(STORAGE_KEY_MISTAKES, JSON.stringify(newMistakes));
+  useEffect(() => {
+    if (isLoaded && isOnline) fillPool();
+  }, [isLoaded, isOnline, settings.provider, settings.poolSize, pool.length]);
+
+  // Items mastered or reported after they were stocked would never be served, so they leave the pool
+  useEffect(() => {
+    if (!isLoaded) return;
+    const excluded = excludedHashes();
+    if (poolRef.current.some(q => isExcluded(q, excluded))) savePool(prev => prev.filter(q => !isExcluded(q, excluded)));
+  }, [isLoaded, masteredBank, flagged]);
+
+  const storeSettings = (newSettings: ProviderSettings) => {
+    setSettings(newSettings);
+    persistMeta("settings", newSettings).catch(logStorageError);
+  };
+
+  const toggleFurigana = () => {
+    setFurigana(!furigana);
+    persistMeta("furigana", !furigana).catch(logStorageError);
+  };
+
+  const saveWordLists = (lists: WordList[]) => {
+    setWordLists(lists);
+    persistMeta("wordLists", lists).catch(logStorageError);
+  };
+
+  const handleSaveWord = (entry: DictionaryEntry, example?: string) => {
+    const word = notebookWord(entry, example);
+    saveNotebook(prev => (prev.some(w => w.id === word.id) ? prev : [...prev, word]));
+  };
+
+  const saveSettings = (newSettings: ProviderSettings) => {
+    storeSettings(newSettings);
+    setAppState("menu");
+  };
+
+  const exportBackup = () => {
+    const backup = buildBackup(mistakeBank, masteredBank, history, settings, wordLists, flagged, notebook);
+    downloadFile(`jlpt-n1-backup-${dayKey(Date.now())}.json`, JSON.stringify(backup, null, 2), "application/json");
+  };
+
+  const exportAnki = (delimiter: AnkiDelimiter) => {
+    const ext = delimiter === "\t" ? "tsv" : "csv";
+    downloadFile(`jlpt-n1-mistakes-${dayKey(Date.now())}.${ext}`, buildAnkiExport(mistakeBank, delimiter), `text/${ext === "tsv" ? "tab-separated-values" : "csv"}`);
+  };
+
+  // Replace takes the backup's settings but keeps this device's API keys, which backups never carry
+  const importBackup = (backup: AppBackup, mode: ImportMode) => {
+    if (mode === "replace") {
+      saveMistakes(() => backup.mistakes);
+      saveMastered(() => backup.mastered);
+      saveHistory(() => backup.history);
+      saveWordLists(backup.wordLists ?? []);
+      saveFlagged(() => backup.flagged ?? []);
+      saveNotebook(() => backup.notebook ?? []);
+      storeSettings({ ...backup.settings, localApiKey: settings.localApiKey, ttsApiKey: settings.ttsApiKey });
+    } else {
+      saveMistakes(prev => mergeMistakes(prev, backup.mistakes));
+      saveMastered(prev => mergeMastered(prev, backup.mastered));
+      saveHistory(prev => mergeHistory(prev, backup.history));
+      saveWordLists(mergeById(wordLists, backup.wordLists ?? []));
+      saveFlagged(prev => mergeById(prev, backup.flagged ?? []));
+      saveNotebook(prev => mergeById(prev, backup.notebook ?? []));
+    }
   };
 
-  const saveMastered = (newMastered: string[]) => {
-    setMasteredBank(newMastered);
-    localStorage.setItem(STORAGE_KEY_MASTERED, JSON.stringify(newMastered));
+  const addMastered = (question: Question) => {
+    const hash = fingerprintHash(question);
+    saveMastered(prev => (prev.includes(hash) ? prev : [...prev, hash]));
   };
 
+  // Cards already in the bank are rescheduled wherever they are answered (review, or mixed into
+  // an adaptive session); other items go to the bank when missed and to mastered when answered correctly
   const handleAnswerReport = (question: Question, isCorrect: boolean) => {
-    if (activeConfig?.id === 'review_mistakes') {
-      // Review Mode: If correct, remove from mistakes AND add to mastered
-      if (isCorrect) {
-        const updated = mistakeBank.filter(q => q.id !== question.id);
-        saveMistakes(updated);
+    const hash = fingerprintHash(question);
+    const stored = mistakeBank.find(q => fingerprintHash(q) === hash);
+
+    if (stored) {
+      const srs = scheduleReview(stored.srs, isCorrect);
+      if (isCorrect && srs.interval >= SRS_GRADUATION_DAYS) {
+        saveMistakes(prev => prev.filter(q => fingerprintHash(q) !== hash));
         
         // Add to mastered so it doesn't appear in normal rotation either
-        if (!masteredBank.includes(question.question)) {
-          saveMastered([...masteredBank, question.question]);
-        }
-      }
-    } else {
-      // Normal Mode
-      if (!isCorrect) {
-        // If wrong, add to mistakes
-        const exists = mistakeBank.some(q => q.question === question.question);
-        if (!exists) {
-          saveMistakes([...mistakeBank, question]);
-        }
+        addMastered(question);
       } else {
-        // If correct, add to mastered
-        if (!masteredBank.includes(question.question)) {
-          saveMastered([...masteredBank, question.question]);
-        }
+        saveMistakes(prev => prev.map(q => (q === stored ? { ...q, srs } : q)));
       }
+    } else if (!isCorrect) {
+      // Checked again inside the update: a mock exam reports every answer in one tick
+      saveMistakes(prev => prev.some(q => fingerprintHash(q) === hash) ? prev : [...prev, { ...question, srs: newSchedule() }]);
+    } else {
+      addMastered(question);
+    }
+  };
+
+  // Paper sets come from the same providers as a session, minus anything that needs audio
+  const createPaperExam = async (source: PaperSource): Promise<PaperExam> => {
+    let generated: Question[];
+    if (source.kind === "mock") {
+      generated = await generateMockExam(settings);
+    } else if (source.kind === "mistakes") {
+      generated = shuffleOptions(mistakeBank.map(({ srs, notes, ...question }) => question));
+    } else {
+      const configs = MONDAI_LIST.filter(m => source.ids.includes(m.id));
+      const sections = await Promise.all(configs.map(config => generateQuestions(config, settings, excludedHashes())));
+      generated = sections.flatMap((qs, i) => takeWholeUnits(qs, configs[i].count));
+    }
+    const questions = paperOrder(generated.filter(isPrintable));
+    if (questions.length === 0) throw new Error("No printable questions");
+    const exam: PaperExam = {
+      id: `paper-${Date.now()}`,
+      title: paperTitle(source),
+      createdAt: Date.now(),
+      questions,
+      marks: questions.map(() => null),
+    };
+    savePaperExams(prev => [exam, ...prev].slice(0, MAX_PAPER_EXAMS));
+    return exam;
+  };
+
+  // Marks from paper count like answers given on screen; items left blank are not reported
+  const scorePaperExam = (exam: PaperExam) => {
+    exam.questions.forEach((question, i) => {
+      const mark = exam.marks[i];
+      if (mark !== null) handleAnswerReport(question, mark === question.correctAnswerIndex);
+    });
+    savePaperExams(prev => prev.map(p => (p.id === exam.id ? { ...p, scoredAt: Date.now() } : p)));
+  };
+
+  // Notes go on the bank entry with the same fingerprint. A card that has graduated out of the bank
+  // has nowhere to keep them, so the chat is told the note was not saved.
+  const handleSaveNote = (question: Question, note: TutorNote): boolean => {
+    const hash = fingerprintHash(question);
+    if (!mistakesRef.current.some(q => fingerprintHash(q) === hash)) return false;
+    saveMistakes(prev => prev.map(q => (fingerprintHash(q) === hash ? { ...q, notes: [...(q.notes ?? []), note] } : q)));
+    return true;
+  };
+
+  // Runs in the background; without the server the item simply stays pending and can be retried from the list
+  const verifyFlagged = async (entry: FlaggedQuestion) => {
+    try {
+      const result = await verifyQuestion(entry);
+      const current = flaggedRef.current.find(f => f.id === entry.id);
+      if (!current) return; // Removed from the list while the check ran
+      const verified = applyVerification(current, result);
+      const returned = returnFlagged(verified);
+      saveFlagged(prev => prev.map(f => (f.id === entry.id ? { ...verified, ...(returned && { returned }) } : f)));
+    } catch (e) {
+      console.warn("Verification failed; the report stays pending", e);
+    }
+  };
+
+  // A reported item leaves both banks and the pool, so a model error never counts against the learner.
+  // The bank card and mastered status are kept on the report so a cleared item can go back.
+  const handleFlag = (question: Question, reason: FlagReason, comment: string) => {
+    const hash = fingerprintHash(question);
+    const { srs, notes, ...plain } = question as ReviewCard;
+    const card = mistakeBank.find(q => fingerprintHash(q) === hash);
+    const entry: FlaggedQuestion = {
+      id: hash,
+      question: plain,
+      reason,
+      ...(comment && { comment }),
+      flaggedAt: Date.now(),
+      status: "pending",
+      ...(card && { card }),
+      ...(masteredBank.includes(hash) && { wasMastered: true }),
+    };
+    saveMistakes(prev => prev.filter(q => fingerprintHash(q) !== hash));
+    saveMastered(prev => prev.filter(h => h !== hash));
+    savePool(prev => prev.filter(q => fingerprintHash(q) !== hash));
+    saveFlagged(prev => [...prev.filter(f => f.id !== hash), entry]);
+    verifyFlagged(entry);
+  };
+
+  // A cleared card returns with its schedule and notes; a fixed one keeps them with the corrected content.
+  // Mastered status only comes back when the item was fine as it was. Returns whether anything went back.
+  const returnFlagged = (entry: FlaggedQuestion): boolean => {
+    if (entry.status !== "restored" && entry.status !== "fixed") return false;
+    const card = entry.card && (entry.fixed ? { ...entry.card, ...entry.fixed } : entry.card);
+    if (card) {
+      const hash = fingerprintHash(card);
+      saveMistakes(prev => (prev.some(q => fingerprintHash(q) === hash) ? prev : [...prev, card]));
     }
+    const remastered = entry.status === "restored" && !!entry.wasMastered;
+    if (remastered) saveMastered(prev => (prev.includes(entry.id) ? prev : [...prev, entry.id]));
+    return !!card || remastered;
+  };
+
+  const addFlaggedToReview = (entry: FlaggedQuestion) => {
+    const question = entry.fixed ?? entry.question;
+    const hash = fingerprintHash(question);
+    saveMistakes(prev => prev.some(q => fingerprintHash(q) === hash) ? prev : [...prev, { ...question, srs: newSchedule() }]);
+    saveFlagged(prev => prev.filter(f => f.id !== entry.id));
+  };
+
+  // Questions are saved whenever they change (streamed sets grow); progress is saved by the screen itself
+  useEffect(() => {
+    if ((appState !== "quiz" && appState !== "exam") || !activeConfig) return;
+    const current = activeSessionRef.current;
+    const session: ActiveSession = current
+      ? { ...current, questions }
+      : { id: Date.now(), mode: appState, config: activeConfig, questions };
+    activeSessionRef.current = session;
+    const { progress, ...record } = session;
+    persistMeta("activeSession", record).catch(logStorageError);
+  }, [appState, questions]);
+
+  const saveProgress = (progress: SessionProgress) => {
+    const session = activeSessionRef.current;
+    if (!session) return;
+    activeSessionRef.current = { ...session, progress };
+    persistMeta("sessionProgress", { sessionId: session.id, progress }).catch(logStorageError);
+  };
+
+  // Starting or finishing a session drops the saved one
+  const resetActiveSession = () => {
+    activeSessionRef.current = null;
+    setResumable(null);
+    setResumeProgress(null);
+    persistMeta("activeSession", null).catch(logStorageError);
+    persistMeta("sessionProgress", null).catch(logStorageError);
+  };
+
+  const resumeSession = (session: ActiveSession) => {
+    sessionRef.current += 1;
+    activeSessionRef.current = session;
+    setResumable(null);
+    setResumeProgress(session.progress ?? null);
+    setActiveConfig(session.config);
+    setQuestions(session.questions);
+    setIsStreaming(false);
+    setAppState(session.mode);
+  };
+
+  // Navigating away keeps the session saved and offered on the menu; its stream stops delivering
+  const leaveSession = () => {
+    sessionRef.current += 1;
+    setIsStreaming(false);
+    setResumable(activeSessionRef.current);
   };
 
   const startQuiz = async (config: MondaiConfig) => {
+    resetActiveSession();
     setActiveConfig(config);
     setAppState("loading");
     
     // Check if it's review mode
     if (config.id === 'review_mistakes') {
-       if (mistakeBank.length === 0) {
+       const dueCards = getDueCards(mistakeBank);
+       if (dueCards.length === 0) {
          setAppState("menu");
          return;
        }
-       // Shuffle mistakes for review
-       const shuffled = shuffleOptions([...mistakeBank].sort(() => 0.5 - Math.random()));
-       setQuestions(shuffled);
+       // Serve only due cards, highest priority first; options are still reshuffled
+       setQuestions(shuffleOptions(dueCards));
        setAppState("quiz");
        return;
     }
 
+    const session = ++sessionRef.current;
+    const mastered = excludedHashes();
+
+    // A full set from the offline pool needs no network at all
+    const pooled = drawFromPool(poolRef.current, config, mastered);
+    if (pooled.length >= config.count) {
+      takeFromPool(pooled);
+      setQuestions(pooled);
+      setIsStreaming(false);
+      setAppState("quiz");
+      return;
+    }
+
+    // A batch prefetched during the previous set of this Mondai starts instantly. Items mastered since
+    // it was made leave with their whole passage set, and the shortfall streams in below.
+    const prefetched = prefetchRef.current?.key === prefetchKey(config) ? await prefetchRef.current.batch : null;
+    prefetchRef.current = null;
+    const fresh = poolUnits<Question>(prefetched ?? []).filter(unit => !unit.some(q => isExcluded(q, mastered))).flat();
+    const missing = config.count - fresh.length;
+    if (missing <= 0) {
+      setQuestions(fresh);
+      setIsStreaming(false);
+      setAppState("quiz");
+      startPrefetch(config, mastered);
+      return;
+    }
+
+    // The quiz opens on the first question; the rest stream in behind it
+    setQuestions(fresh);
+    setIsStreaming(true);
+    let started = fresh.length > 0;
+    if (started) setAppState("quiz");
     try {
-      const qs = await generateQuestions(config);
-      
-      // Filter out questions that are in the Mastered Bank
-      const freshQuestions = qs.filter(q => !masteredBank.includes(q.question));
-      
-      if (freshQuestions.length === 0 && qs.length > 0) {
-        // Edge case: All questions returned were already mastered.
-        console.warn("All generated questions were previously mastered. Showing anyway.");
-        setQuestions(qs);
-      } else {
-        setQuestions(freshQuestions);
+      // Mastered items are filtered during generation so the shortfall is topped back up
+      const known = new Set<string>([...mastered, ...fresh.map(fingerprintHash)]);
+      await generateQuestions({ ...adaptConfig(config, history), count: missing }, settings, known, batch => {
+        if (sessionRef.current !== session) return;
+        setQuestions(prev => [...prev, ...batch]);
+        if (!started) {
+          started = true;
+          setAppState("quiz");
+        }
+      });
+      if (sessionRef.current === session) startPrefetch(config, mastered);
+    } catch (e) {
+      if (sessionRef.current === session && !started) {
+        // Offline or failing: a partial set from the pool still beats the error screen
+        if (pooled.length > 0) {
+          takeFromPool(pooled);
+          setQuestions(pooled);
+          setAppState("quiz");
+        } else {
+          setAppState("error");
+        }
       }
-      
+    } finally {
+      if (sessionRef.current === session) setIsStreaming(false);
+    }
+  };
+
+  const prefetchKey = (config: MondaiConfig) => JSON.stringify([config.id, config.targets?.map(t => t.id)]);
+
+  // Generates the next set of the same Mondai in the background while this one is being answered
+  const startPrefetch = (config: MondaiConfig, mastered: Set<string>) => {
+    if (!MONDAI_LIST.some(m => m.id === config.id)) return;
+    if (drawFromPool(poolRef.current, config, mastered).length >= config.count) return;
+    prefetchRef.current = {
+      key: prefetchKey(config),
+      batch: generateQuestions(adaptConfig(config, history), settings, mastered).catch(() => null),
+    };
+  };
+
+  const startMockExam = async () => {
+    resetActiveSession();
+    setActiveConfig(MOCK_EXAM_CONFIG);
+    setAppState("loading");
+
+    try {
+      const qs = await generateMockExam(settings);
+      setQuestions(qs);
+      setAppState("exam");
+    } catch (e) {
+      setAppState("error");
+    }
+  };
+
+  const startAdaptiveSession = async () => {
+    resetActiveSession();
+    setActiveConfig(ADAPTIVE_CONFIG);
+    setAppState("loading");
+
+    try {
+      const { review, parts } = planAdaptiveSession(history, getDueCards(mistakeBank));
+      const mastered = excludedHashes();
+      const generated = await Promise.all(parts.filter(p => p.count > 0).map(async part => {
+        const pooled = drawFromPool(poolRef.current, part, mastered);
+        const qs = pooled.length >= part.count
+          ? pooled
+          : await generateQuestions(part, settings, mastered).catch(e => {
+            if (pooled.length === 0) throw e;
+            return pooled;
+          });
+        if (qs === pooled) takeFromPool(pooled);
+        return qs;
+      }));
+      // Fresh items are interleaved; due cards follow as a block so passage sets stay together
+      setQuestions([...generated.flat().sort(() => 0.5 - Math.random()), ...shuffleOptions(review)]);
       setAppState("quiz");
     } catch (e) {
       setAppState("error");
@@ -733,46 +5310,219 @@ export default function App() {
       section: "Review",
       label: "錯題集・復習",
       subLabel: "Review Mistakes",
-      count: mistakeBank.length,
-      description: "Stored incorrect answers"
+      count: getDueCards(mistakeBank).length,
+      description: "Stored incorrect answers due for review"
     };
     startQuiz(config);
   };
 
-  const handleFinish = (score: number, total: number, timeSpent: number) => {
+  const retry = () => {
+    if (activeConfig?.id === 'mock_exam') startMockExam();
+    else if (activeConfig?.id === 'adaptive_session') startAdaptiveSession();
+    else if (activeConfig) startQuiz(activeConfig);
+  };
+
+  const handleFinish = (score: number, total: number, timeSpent: number, breakdown?: MondaiResult[], answerLog?: AnswerRecord[]) => {
+    if (activeConfig && answerLog) {
+      const record: SessionRecord = {
+        id: `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        mondaiId: activeConfig.id,
+        label: activeConfig.label,
+        finishedAt: Date.now(),
+        totalSeconds: timeSpent,
+        answers: answerLog,
+      };
+      saveHistory(prev => [...prev, record]);
+    }
+    resetActiveSession();
     setFinalScore(score);
+    setFinalTotal(total);
     setFinalTime(timeSpent);
+    setFinalBreakdown(breakdown);
+    const result: LastResult = { score, total, timeSpent, breakdown, config: activeConfig };
+    persistMeta("lastResult", result).catch(logStorageError);
     setAppState("results");
   };
 
   const handleRestart = () => {
+    sessionRef.current += 1;
+    setIsStreaming(false);
     setAppState("menu");
     setQuestions([]);
-    setFinalScore(0);
-    setFinalTime(0);
-    setActiveConfig(null);
   };
 
+  // Follows a URL. Screens open directly; a session route resumes the interrupted session when it
+  // is the same one and starts a fresh session otherwise.
+  const openRoute = (path: string) => {
+    if (path === routeFor(appState, activeConfig)) return;
+    const saved = activeSessionRef.current;
+    if (saved && sessionRoute(saved.config) === path) {
+      resumeSession(saved);
+      return;
+    }
+    if (appState === "quiz" || appState === "exam" || appState === "loading") leaveSession();
+    // Back from the results lands on the finished session's address. That session is gone, so the
+    // entry becomes the menu rather than the start of a new set.
+    if (appState === "results" && activeConfig && path === sessionRoute(activeConfig)) {
+      window.history.replaceState(null, "", "#/");
+      setAppState("menu");
+      return;
+    }
+
+    const screen = (Object.keys(SCREEN_ROUTES) as AppState[]).find(state => SCREEN_ROUTES[state] === path);
+    if (screen === "results" && finalTotal === 0) setAppState("menu");
+    else if (screen) setAppState(screen);
+    else if (path === "/review") startReviewMistakes();
+    else if (path === "/adaptive") startAdaptiveSession();
+    else if (path === "/mock-exam") startMockExam();
+    else {
+      const config = MONDAI_LIST.find(m => sessionRoute(m) === path);
+      if (config) startQuiz(config);
+      else setAppState("menu");
+    }
+  };
+
+  // The listener is registered once, so it goes through a ref to see the latest state
+  const openRouteRef = useRef(openRoute);
+  openRouteRef.current = openRoute;
+
+  useEffect(() => {
+    const handleHashChange = () => openRouteRef.current(currentRoute());
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, []);
+
+  // The URL the app was opened with is followed once storage has loaded
+  useEffect(() => {
+    if (!isLoaded) return;
+    openRoute(currentRoute());
+    setIsRouted(true);
+  }, [isLoaded]);
+
+  // Every screen change gets its own history entry, so the back button works
+  useEffect(() => {
+    if (!isRouted) return;
+    const route = routeFor(appState, activeConfig);
+    if (currentRoute() !== route) window.history.pushState(null, "", `#${route}`);
+  }, [isRouted, appState, activeConfig]);
+
   return (
     <>
       {appState === "menu" && (
         <Menu 
           onSelect={startQuiz} 
           mistakeCount={mistakeBank.length}
+          dueCount={getDueCards(mistakeBank).length}
           onReviewMistakes={startReviewMistakes}
+          onStartAdaptive={startAdaptiveSession}
+          onStartMockExam={startMockExam}
+          onOpenSettings={() => setAppState("settings")}
+          onOpenDashboard={() => setAppState("dashboard")}
+          onOpenTargets={() => setAppState("targets")}
+          onOpenFlagged={() => setAppState("flagged")}
+          flaggedCount={flagged.filter(f => f.status === "pending").length}
+          onOpenNotebook={() => setAppState("notebook")}
+          onOpenPaper={() => setAppState("paper")}
+          resumable={resumable}
+          onResume={() => resumable && resumeSession(resumable)}
+          onDiscardResumable={resetActiveSession}
+          stock={poolStock(pool, new Set<string>(masteredBank))}
+          isOffline={!isOnline && settings.provider !== "question_pack"}
+          providerLabel={PROVIDER_LABELS[settings.provider]}
+        />
+      )}
+      {appState === "targets" && (
+        <TargetPicker
+          history={history}
+          wordLists={wordLists}
+          notebook={notebook}
+          onSaveWordLists={saveWordLists}
+          onStart={startQuiz}
+          onBack={() => setAppState("menu")}
+        />
+      )}
+      {appState === "dashboard" && (
+        <Dashboard history={history} onSelect={startQuiz} onBack={() => setAppState("menu")} />
+      )}
+      {appState === "flagged" && (
+        <FlaggedList
+          flagged={flagged}
+          onVerify={verifyFlagged}
+          onAddToReview={addFlaggedToReview}
+          onRemove={entry => saveFlagged(prev => prev.filter(f => f.id !== entry.id))}
+          onBack={() => setAppState("menu")}
+        />
+      )}
+      {appState === "notebook" && (
+        <VocabularyNotebook
+          notebook={notebook}
+          onRemove={word => saveNotebook(prev => prev.filter(w => w.id !== word.id))}
+          onPractice={() => setAppState("targets")}
+          onBack={() => setAppState("menu")}
+        />
+      )}
+      {appState === "paper" && (
+        <PaperExams
+          exams={paperExams}
+          mistakeCount={mistakeBank.filter(isPrintable).length}
+          onCreate={createPaperExam}
+          onMark={(exam, marks) => savePaperExams(prev => prev.map(p => (p.id === exam.id ? { ...p, marks } : p)))}
+          onScore={scorePaperExam}
+          onRemove={exam => savePaperExams(prev => prev.filter(p => p.id !== exam.id))}
+          onBack={() => setAppState("menu")}
+        />
+      )}
+      {appState === "settings" && (
+        <SettingsView
+          settings={settings}
+          mistakeCount={mistakeBank.length}
+          onSave={saveSettings}
+          onCancel={() => setAppState("menu")}
+          onExportBackup={exportBackup}
+          onExportAnki={exportAnki}
+          onImportBackup={importBackup}
         />
       )}
       {appState === "loading" && <Loading />}
-      {appState === "error" && <ErrorView onRetry={() => activeConfig && startQuiz(activeConfig)} />}
+      {appState === "error" && <ErrorView onRetry={retry} />}
       {appState === "quiz" && activeConfig && (
         <Quiz 
           questions={questions} 
           config={activeConfig} 
+          speech={speech}
+          isStreaming={isStreaming}
+          onFinish={handleFinish} 
+          onAnswerReport={handleAnswerReport}
+          onSaveNote={handleSaveNote}
+          onFlag={handleFlag}
+          initialProgress={resumeProgress as QuizProgress | null}
+          onProgress={saveProgress}
+          furigana={furigana}
+          onToggleFurigana={toggleFurigana}
+          notebook={notebook}
+          onSaveWord={handleSaveWord}
+        />
+      )}
+      {appState === "exam" && (
+        <MockExam 
+          questions={questions} 
           onFinish={handleFinish} 
           onAnswerReport={handleAnswerReport}
+          initialProgress={resumeProgress as ExamProgress | null}
+          onProgress={saveProgress}
+        />
+      )}
+      {appState === "results" && (
+        <Results
+          score={finalScore}
+          total={finalTotal}
+          timeSpent={finalTime}
+          breakdown={finalBreakdown}
+          config={activeConfig}
+          onRestart={handleRestart}
+          onNextSet={activeConfig && MONDAI_LIST.some(m => m.id === activeConfig.id) ? () => startQuiz(activeConfig) : undefined}
         />
       )}
-      {appState === "results" && <Results score={finalScore} total={questions.length} timeSpent={finalTime} onRestart={handleRestart} />}
     </>
   );
 }
@@ -0,0 +1,632 @@
+// Question API: keeps the Gemini key off the client. Generates, validates and caches questions
+// and streams them back as NDJSON, one question (or one passage set) per line.
+//
+//   GET  /api/questions?mondai=vocab_readings&count=6[&difficulty=hard][&targets=<json>][&weak=...]
+//   POST /api/tutor  {question, history, message} -> the tutor's reply as streamed plain text
+//   POST /api/verify {question, reason, comment}  -> second-pass check of a reported question
+//
+// Without GEMINI_API_KEY (or with MOCK_API=1) it serves fixtures/questions.json and canned answers.
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { readFileSync } from "node:fs";
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import {
+  MONDAI_LIST, SYSTEM_INSTRUCTION,
+  buildQuestionPrompt, contentToRaw, createStreamParser, flattenPassageGroups, isGroupedMondai, targetKindFor, validateQuestion,
+} from "./generation";
+import type { MondaiConfig, MondaiId, QuestionContent, RawQuestion, StudyTarget } from "./generation";
+
+try {
+  process.loadEnvFile(".env.local");
+} catch {
+  // No .env.local; the environment alone decides
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY || "";
+const MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+const MOCK = process.env.MOCK_API === "1" || !API_KEY;
+const FIXTURES_PATH = "fixtures/questions.json";
+
+const MAX_COUNT = 30;
+const MAX_TARGETS = 200;
+const MAX_WEAK_ITEMS = 20;
+const MAX_ITEM_LENGTH = 100;
+
+// Requests a client may make back to back. Question requests have their own bucket, sized for
+// two mock exams (13 Mondai each, requested at once) so a retry after a failure still fits.
+const RATE_LIMIT_BURST = { questions: 26, chat: 10 };
+const RATE_LIMIT_REFILL_MS = 6 * 1000; // One more request allowed every 6 seconds
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+const CACHE_MAX_UNITS = 50; // Per Mondai and difficulty
+
+// --- Schemas ---
+
+const MATERIAL_PROPERTIES: Record<string, Schema> = {
+  passage: { type: Type.STRING, description: "Reading passage, only for reading questions." },
+  passageB: { type: Type.STRING, description: "Second text (B), only for Integrated Comprehension." },
+  table: {
+    type: Type.OBJECT,
+    description: "Tabular material, only for Information Retrieval.",
+    properties: {
+      caption: { type: Type.STRING },
+      headers: { type: Type.ARRAY, items: { type: Type.STRING } },
+      rows: { type: Type.ARRAY, items: { type: Type.ARRAY, items: { type: Type.STRING } } },
+    },
+    required: ["headers", "rows"],
+  },
+  script: {
+    type: Type.ARRAY,
+    description: "Listening script, only for listening questions.",
+    items: {
+      type: Type.OBJECT,
+      properties: {
+        speaker: { type: Type.STRING },
+        voice: { type: Type.STRING, enum: ["male", "female", "narrator"] },
+        text: { type: Type.STRING },
+      },
+      required: ["speaker", "voice", "text"],
+    },
+  },
+};
+
+const ITEM_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    stem: { type: Type.STRING, description: "The sentence or question, with blanks marked inline." },
+    target: { type: Type.STRING, description: "The underlined word, exactly as it appears in the stem." },
+    starSlot: { type: Type.INTEGER, description: "0-3 index of the ★ blank (Sentence Composition only)." },
+    options: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING }
+    },
+    correctAnswerIndex: { type: Type.INTEGER, description: "0-3 index." },
+    correctOrder: {
+      type: Type.ARRAY,
+      items: { type: Type.INTEGER },
+      description: "Option indices in blank order, left to right (Sentence Composition only)."
+    },
+    explanation: { type: Type.STRING },
+    testedItem: { type: Type.STRING, description: "The grammar point or word the question tests (Vocabulary and Grammar only)." },
+  },
+  required: ["stem", "options", "correctAnswerIndex", "explanation"],
+};
+
+// Wrapped schema in an object "response" to avoid top-level array issues
+const QUESTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        ...ITEM_SCHEMA,
+        properties: { ...MATERIAL_PROPERTIES, ...ITEM_SCHEMA.properties },
+      }
+    }
+  }
+};
+
+// Grouped Mondai: one passage (or A/B pair, or notice) per entry, with its questions nested
+const PASSAGE_GROUP_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    passages: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          ...MATERIAL_PROPERTIES,
+          questions: { type: Type.ARRAY, items: ITEM_SCHEMA },
+        },
+        required: ["questions"],
+      }
+    }
+  }
+};
+
+// --- Sources ---
+
+type UnitSource = (config: MondaiConfig) => AsyncIterable<RawQuestion[]>;
+
+const ai = MOCK ? null : new GoogleGenAI({ apiKey: API_KEY });
+
+const geminiSource = (gemini: GoogleGenAI): UnitSource =>
+  async function* (config) {
+    const response = await gemini.models.generateContentStream({
+      model: MODEL,
+      contents: buildQuestionPrompt(config),
+      config: {
+        systemInstruction: SYSTEM_INSTRUCTION,
+        responseMimeType: "application/json",
+        responseSchema: isGroupedMondai(config) ? PASSAGE_GROUP_SCHEMA : QUESTION_SCHEMA,
+      },
+    });
+    const parser = createStreamParser();
+    for await (const chunk of response) {
+      for (const element of parser(chunk.text ?? "")) {
+        yield isGroupedMondai(config) ? flattenPassageGroups([element]) : [element];
+      }
+    }
+  };
+
+// Fixtures use the question pack format; items sharing a groupId form one unit
+const mockSource = (): UnitSource => {
+  const pack = JSON.parse(readFileSync(FIXTURES_PATH, "utf8"));
+  const units = new Map<string, RawQuestion[]>();
+  (pack.questions as (RawQuestion & { mondaiId: string })[]).forEach(({ mondaiId, ...q }, i) => {
+    const key = `${mondaiId}/${q.groupId ?? `item-${i}`}`;
+    units.set(key, [...(units.get(key) ?? []), q]);
+  });
+
+  return async function* (config) {
+    const own = [...units].filter(([key]) => key.startsWith(`${config.id}/`)).map(([, unit]) => unit);
+    let served = 0;
+    for (const unit of own.sort(() => 0.5 - Math.random())) {
+      if (served >= config.count) break;
+      served += unit.length;
+      yield unit;
+    }
+  };
+};
+
+// Drops malformed items before they leave the server; the client validates again all the same
+const validUnits = async function* (config: MondaiConfig, source: UnitSource): AsyncGenerator<RawQuestion[]> {
+  for await (const unit of source(config)) {
+    const valid = unit.filter(raw => validateQuestion(raw, config.id));
+    if (valid.length < unit.length) console.warn(`Rejected ${unit.length - valid.length} malformed item(s) for ${config.id}`);
+    if (valid.length > 0) yield valid;
+  }
+};
+
+// --- Rate Limiting ---
+
+type BucketKind = keyof typeof RATE_LIMIT_BURST;
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+// Token bucket per client and kind of request; returns the seconds to wait, or 0 when the request may go ahead
+const takeToken = (kind: BucketKind, client: string): number => {
+  const now = Date.now();
+  const burst = RATE_LIMIT_BURST[kind];
+  const key = `${kind}:${client}`;
+  const bucket = buckets.get(key) ?? { tokens: burst, updated: now };
+  bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updated) / RATE_LIMIT_REFILL_MS);
+  bucket.updated = now;
+  buckets.set(key, bucket);
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return 0;
+  }
+  return Math.ceil((1 - bucket.tokens) * RATE_LIMIT_REFILL_MS / 1000);
+};
+
+// Full buckets carry no state worth keeping
+setInterval(() => {
+  const full = Date.now() - Math.max(...Object.values(RATE_LIMIT_BURST)) * RATE_LIMIT_REFILL_MS;
+  buckets.forEach((bucket, client) => {
+    if (bucket.updated < full) buckets.delete(client);
+  });
+}, 60 * 1000).unref();
+
+// The Vite dev/preview proxy connects from loopback and appends the browser's address to
+// X-Forwarded-For. Only that last entry is trusted; earlier ones are whatever the client sent.
+const clientAddress = (req: IncomingMessage): string => {
+  const remote = req.socket.remoteAddress ?? "unknown";
+  const forwarded = req.headers["x-forwarded-for"];
+  const isLoopback = remote === "127.0.0.1" || remote === "::1" || remote === "::ffff:127.0.0.1";
+  if (!isLoopback || typeof forwarded !== "string") return remote;
+  return forwarded.split(",").pop()?.trim() || remote;
+};
+
+// --- Cache ---
+
+interface CachedUnit {
+  unit: RawQuestion[];
+  expires: number;
+}
+
+// Units generated beyond what a request took (or left behind by a client that hung up)
+const cache = new Map<string, CachedUnit[]>();
+
+// Prompts personalised with targets or weak items are not shared between clients
+const cacheKey = (config: MondaiConfig): string | null =>
+  config.targets?.length || config.weakItems?.length ? null : `${config.id}/${config.difficulty ?? "standard"}`;
+
+const takeCached = (key: string): RawQuestion[] | undefined => {
+  const units = (cache.get(key) ?? []).filter(entry => entry.expires > Date.now());
+  const entry = units.shift();
+  cache.set(key, units);
+  return entry?.unit;
+};
+
+const putCached = (key: string, unit: RawQuestion[]) => {
+  const units = [...(cache.get(key) ?? []), { unit, expires: Date.now() + CACHE_TTL_MS }];
+  cache.set(key, units.slice(-CACHE_MAX_UNITS));
+};
+
+// --- Questions ---
+
+const cleanItem = (value: unknown): string => (typeof value === "string" ? value.trim().slice(0, MAX_ITEM_LENGTH) : "");
+
+// Rebuilds the Mondai config from the query; only the known Mondai can be asked for
+const parseQuestionRequest = (params: URLSearchParams): MondaiConfig | string => {
+  const base = MONDAI_LIST.find(m => m.id === params.get("mondai"));
+  if (!base) return "Unknown or missing mondai";
+
+  const count = Number(params.get("count") ?? base.count);
+  if (!Number.isInteger(count) || count < 1) return "count must be a positive integer";
+  const config: MondaiConfig = { ...base, count: Math.min(count, MAX_COUNT) };
+
+  const difficulty = params.get("difficulty");
+  if (difficulty === "hard") config.difficulty = "hard";
+
+  const kind = targetKindFor(base);
+  const targetsParam = params.get("targets");
+  if (targetsParam && kind) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(targetsParam);
+    } catch {
+      return "targets must be a JSON array";
+    }
+    if (!Array.isArray(parsed)) return "targets must be a JSON array";
+    const targets: StudyTarget[] = parsed.slice(0, MAX_TARGETS).flatMap((t: any) => {
+      const text = cleanItem(t?.text);
+      if (!text) return [];
+      const reading = cleanItem(t?.reading);
+      const meaning = cleanItem(t?.meaning);
+      return [{ id: text, kind, text, ...(reading && { reading }), ...(meaning && { meaning }) }];
+    });
+    if (targets.length > 0) config.targets = targets;
+  }
+
+  const weakItems = params.getAll("weak").map(cleanItem).filter(Boolean).slice(0, MAX_WEAK_ITEMS);
+  if (weakItems.length > 0) config.weakItems = weakItems;
+
+  return config;
+};
+
+const source = ai ? geminiSource(ai) : mockSource();
+
+const sendText = (res: ServerResponse, status: number, text: string, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8", ...headers }).end(text);
+};
+
+// Answers 429 and returns false when the client has used up its requests
+const allowRequest = (kind: BucketKind, req: IncomingMessage, res: ServerResponse): boolean => {
+  const wait = takeToken(kind, clientAddress(req));
+  if (wait > 0) sendText(res, 429, "Too many requests", { "Retry-After": String(wait) });
+  return wait === 0;
+};
+
+const handleQuestions = async (req: IncomingMessage, res: ServerResponse, params: URLSearchParams) => {
+  const config = parseQuestionRequest(params);
+  if (typeof config === "string") {
+    sendText(res, 400, config);
+    return;
+  }
+  if (!allowRequest("questions", req, res)) return;
+
+  let closed = false;
+  res.on("close", () => { closed = true; });
+
+  let sent = 0;
+  const send = (unit: RawQuestion[]) => {
+    if (!res.headersSent) res.writeHead(200, { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-store" });
+    res.write(JSON.stringify(unit) + "\n");
+    sent += unit.length;
+  };
+
+  const key = cacheKey(config);
+  if (key) {
+    for (let unit = takeCached(key); unit; unit = sent < config.count ? takeCached(key) : undefined) send(unit);
+  }
+
+  try {
+    if (sent < config.count) {
+      // Whatever the model writes past what this client needs is kept for the next one
+      for await (const unit of validUnits({ ...config, count: config.count - sent }, source)) {
+        if (!closed && sent < config.count) send(unit);
+        else if (key) putCached(key, unit);
+        else break;
+      }
+    }
+  } catch (error) {
+    console.error(`Generation failed for ${config.id}:`, error);
+    if (!res.headersSent) {
+      sendText(res, 502, "Question generation failed");
+      return;
+    }
+  }
+
+  if (!res.headersSent) {
+    sendText(res, 502, "No valid questions returned");
+    return;
+  }
+  res.end();
+};
+
+// --- Request Bodies ---
+
+const MAX_BODY_BYTES = 64 * 1024;
+
+// A question as the app sends it for discussion or checking: its plain-text rendering plus the key
+interface AnsweredQuestion {
+  text: string;
+  options: string[];
+  correctAnswerIndex: number;
+  selectedIndex: number | null; // The learner's pick, when there was one
+  explanation: string;
+  testedItem?: string;
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const parseAnsweredQuestion = (q: any): AnsweredQuestion | null => {
+  if (typeof q?.text !== "string" || !Array.isArray(q.options) || !Number.isInteger(q.correctAnswerIndex)) return null;
+  return {
+    text: q.text,
+    options: q.options.map(String),
+    correctAnswerIndex: q.correctAnswerIndex,
+    selectedIndex: Number.isInteger(q.selectedIndex) ? q.selectedIndex : null,
+    explanation: typeof q.explanation === "string" ? q.explanation : "",
+    ...(typeof q.testedItem === "string" && { testedItem: q.testedItem }),
+  };
+};
+
+const formatQuestion = (q: AnsweredQuestion): string => `
+    Question:
+    ${q.text}
+
+    Options:
+    ${q.options.map((o, i) => `${i + 1}. ${o}`).join("\n    ")}
+
+    Correct answer: ${q.correctAnswerIndex + 1}
+    ${q.selectedIndex === null ? "" : `Learner's answer: ${q.selectedIndex + 1}`}
+    ${q.testedItem ? `Tested item: ${q.testedItem}` : ""}
+    Explanation: ${q.explanation}
+  `;
+
+// Parses the body as JSON and answers 400 itself when that or `parse` fails
+const readJson = async <T,>(req: IncomingMessage, res: ServerResponse, parse: (body: any) => T | string): Promise<T | null> => {
+  let parsed: T | string;
+  try {
+    parsed = parse(JSON.parse(await readBody(req)));
+  } catch {
+    parsed = "Request body must be JSON";
+  }
+  if (typeof parsed === "string") {
+    sendText(res, 400, parsed);
+    return null;
+  }
+  return parsed;
+};
+
+// --- Tutor ---
+
+const MAX_TUTOR_TURNS = 40;
+const MAX_TUTOR_MESSAGE_LENGTH = 2000;
+const MOCK_TUTOR_REPLY = "（モック）この問題のポイントは、選択肢の意味の違いです。正解の選択肢だけが文の意味に合います。";
+
+interface TutorRequest {
+  question: AnsweredQuestion;
+  history: { role: "user" | "model", text: string }[];
+  message: string;
+}
+
+const parseTutorRequest = (body: any): TutorRequest | string => {
+  const question = parseAnsweredQuestion(body?.question);
+  if (!question) return "Missing question";
+  const message = typeof body.message === "string" ? body.message.trim().slice(0, MAX_TUTOR_MESSAGE_LENGTH) : "";
+  if (!message) return "Missing message";
+  const history = (Array.isArray(body.history) ? body.history : [])
+    .filter((m: any) => (m?.role === "user" || m?.role === "model") && typeof m.text === "string" && m.text)
+    .slice(-MAX_TUTOR_TURNS)
+    .map((m: any) => ({ role: m.role, text: m.text.slice(0, MAX_TUTOR_MESSAGE_LENGTH * 2) }));
+  return { question, history, message };
+};
+
+const buildTutorInstruction = (q: AnsweredQuestion): string => `
+    You are a patient JLPT N1 tutor. The learner has just answered the practice question below and is asking follow-up questions about it.
+    Answer in Japanese, adding short English glosses for difficult words. Stay on this question: why each option is right or wrong, how the grammar point or word is used, and further example sentences.
+    Write plain text. Do NOT use Markdown.
+    ${formatQuestion(q)}
+  `;
+
+// The chat is rebuilt from the history the client sends, so the server keeps no conversation state
+const handleTutor = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!allowRequest("chat", req, res)) return;
+  const request = await readJson(req, res, parseTutorRequest);
+  if (!request) return;
+
+  if (!ai) {
+    sendText(res, 200, MOCK_TUTOR_REPLY);
+    return;
+  }
+
+  try {
+    const chat = ai.chats.create({
+      model: MODEL,
+      config: { systemInstruction: buildTutorInstruction(request.question) },
+      history: request.history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+    });
+    const response = await chat.sendMessageStream({ message: request.message });
+    for await (const chunk of response) {
+      if (!chunk.text) continue;
+      if (!res.headersSent) res.writeHead(200, { "Content-Type": "text/plain; charset=utf-8", "Cache-Control": "no-store" });
+      res.write(chunk.text);
+    }
+  } catch (error) {
+    console.error("Tutor request failed:", error);
+  }
+
+  if (!res.headersSent) {
+    sendText(res, 502, "Tutor request failed");
+    return;
+  }
+  res.end();
+};
+
+// --- Verification ---
+
+const VERDICTS = ["valid", "fixed", "invalid"];
+
+interface VerifyRequest {
+  question: AnsweredQuestion;
+  reason: string;
+  comment: string;
+  // What a fix is validated against; items from before Mondai were recorded have none
+  source?: { mondaiId: MondaiId, content: QuestionContent, correctOrder?: number[] };
+}
+
+const VERIFY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, enum: VERDICTS },
+    note: { type: Type.STRING, description: "Short reasoning in Japanese." },
+    correctAnswerIndex: { type: Type.INTEGER, description: "0-based index of the single correct option (fixed only)." },
+    options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "All options, in the same order, with at most one rewritten (fixed only)." },
+    explanation: { type: Type.STRING, description: "Corrected explanation in Japanese (fixed only)." },
+  },
+  required: ["verdict", "note"],
+};
+
+const isOffset = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const parseVerifySource = (q: any): VerifyRequest["source"] => {
+  const content = q?.content;
+  if (!MONDAI_LIST.some(m => m.id === q?.mondaiId)) return undefined;
+  if (typeof content?.stem !== "string" || !Array.isArray(content.blanks) || !content.blanks.every(isOffset)) return undefined;
+  const hasTarget = isOffset(content.target?.start) && isOffset(content.target?.length);
+  return {
+    mondaiId: q.mondaiId,
+    content: { ...content, target: hasTarget ? content.target : undefined },
+    ...(Array.isArray(q.correctOrder) && { correctOrder: q.correctOrder }),
+  };
+};
+
+const parseVerifyRequest = (body: any): VerifyRequest | string => {
+  const question = parseAnsweredQuestion(body?.question);
+  if (!question) return "Missing question";
+  const source = parseVerifySource(body.question);
+  return {
+    question,
+    reason: typeof body.reason === "string" ? body.reason.slice(0, MAX_ITEM_LENGTH) : "",
+    comment: typeof body.comment === "string" ? body.comment.slice(0, MAX_TUTOR_MESSAGE_LENGTH) : "",
+    ...(source && { source }),
+  };
+};
+
+// A fix goes back only if the repaired item passes the same validation as a generated one
+const validateFix = (request: VerifyRequest, result: any) => {
+  if (!request.source) return null;
+  const { mondaiId, content, correctOrder } = request.source;
+  return validateQuestion({
+    ...contentToRaw(content),
+    options: result.options,
+    correctAnswerIndex: result.correctAnswerIndex,
+    correctOrder,
+    explanation: result.explanation,
+  }, mondaiId);
+};
+
+const buildVerifyPrompt = ({ question, reason, comment }: VerifyRequest): string => `
+    A learner reported this JLPT N1 practice question as broken.
+    Reported problem: ${reason}${comment ? ` (${comment})` : ""}
+    ${formatQuestion(question)}
+
+    Check the question independently of the report. Answer with:
+    - "valid" if exactly one option is correct, the answer key is right and the explanation agrees with it;
+    - "fixed" if it becomes valid by changing the answer key, rewriting the explanation, or rewriting at most one option. Give the full corrected 'options', 'correctAnswerIndex' (0-based) and 'explanation';
+    - "invalid" if it cannot be repaired that way.
+    Put your reasoning in 'note', in Japanese.
+  `;
+
+// The checker's answer goes back as JSON: { verdict, note, correctAnswerIndex?, options?, explanation? }
+const handleVerify = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!allowRequest("chat", req, res)) return;
+  const request = await readJson(req, res, parseVerifyRequest);
+  if (!request) return;
+
+  if (!ai) {
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ verdict: "valid", note: "（モック）問題は見つかりませんでした。" }));
+    return;
+  }
+
+  try {
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: buildVerifyPrompt(request),
+      config: {
+        systemInstruction: "You are a meticulous JLPT exam reviewer. Output valid JSON.",
+        responseMimeType: "application/json",
+        responseSchema: VERIFY_SCHEMA,
+      },
+    });
+    const result = JSON.parse(response.text ?? "");
+    if (!VERDICTS.includes(result?.verdict)) throw new Error(`Unexpected verdict: ${result?.verdict}`);
+    const note = typeof result.note === "string" ? result.note : "";
+    const fixed = result.verdict === "fixed" ? validateFix(request, result) : null;
+    if (result.verdict === "fixed" && !fixed) {
+      console.warn("Rejected a malformed fix:", result);
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({
+        verdict: "invalid",
+        note: `${note}（修正案が問題の形式を満たさないため不採用）`,
+      }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({
+      verdict: result.verdict,
+      note,
+      ...(fixed && {
+        correctAnswerIndex: fixed.correctAnswerIndex,
+        options: fixed.options,
+        explanation: fixed.explanation,
+      }),
+    }));
+  } catch (error) {
+    console.error("Verification failed:", error);
+    sendText(res, 502, "Verification failed");
+  }
+};
+
+// --- Server ---
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const handled = req.method === "GET" && url.pathname === "/api/questions" ? handleQuestions(req, res, url.searchParams)
+    : req.method === "POST" && url.pathname === "/api/tutor" ? handleTutor(req, res)
+    : req.method === "POST" && url.pathname === "/api/verify" ? handleVerify(req, res)
+    : null;
+  if (!handled) {
+    sendText(res, 404, "Not found");
+    return;
+  }
+  handled.catch(error => {
+    console.error(error);
+    if (!res.headersSent) res.writeHead(500).end();
+    else res.end();
+  });
+}).listen(PORT, () => {
+  console.log(`Question API on http://localhost:${PORT} (${MOCK ? `mock, serving ${FIXTURES_PATH}` : MODEL})`);
+});
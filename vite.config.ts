@@ -4,16 +4,20 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The Gemini key stays with the question server (server.ts); the client only talks to /api
+    const proxy = {
+      '/api': { target: `http://localhost:${env.PORT || 8787}`, xfwd: true },
+    };
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy,
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      preview: {
+        proxy,
       },
+      plugins: [react()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),